@@ -0,0 +1,84 @@
+import { type FormEvent, useEffect, useRef, useState } from "react";
+
+import type { ChatMessage } from "~/types/socket";
+import { MAX_CHAT_LENGTH } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  onSend: (text: string) => void;
+  // Spectators read along but can't write
+  readOnly?: boolean;
+}
+
+export function ChatPanel({
+  messages,
+  onSend,
+  readOnly = false,
+}: ChatPanelProps) {
+  const [draft, setDraft] = useState("");
+  const listRef = useRef<HTMLOListElement>(null);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    const list = listRef.current;
+    if (list) list.scrollTop = list.scrollHeight;
+  }, [messages.length]);
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const text = draft.trim();
+    if (!text) return;
+    onSend(text);
+    setDraft("");
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-gray-800 p-4">
+      <h3 className="text-sm font-medium tracking-wider text-white uppercase">
+        Chat
+      </h3>
+
+      <ol
+        ref={listRef}
+        aria-live="polite"
+        className="h-40 space-y-1 overflow-y-auto text-sm text-gray-300"
+      >
+        {messages.length === 0 && (
+          <li className="text-gray-500">No messages yet.</li>
+        )}
+        {messages.map((message) => (
+          <li key={message.id} className="break-words">
+            <span
+              className={`font-medium ${getPlayerColor(message.playerNumber)}`}
+            >
+              {message.name}
+            </span>{" "}
+            {message.text}
+          </li>
+        ))}
+      </ol>
+
+      {!readOnly && (
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <input
+            type="text"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            maxLength={MAX_CHAT_LENGTH}
+            placeholder="Say something..."
+            aria-label="Chat message"
+            className="min-w-0 flex-1 rounded bg-gray-700 px-3 py-1 text-sm text-white placeholder-gray-400"
+          />
+          <button
+            type="submit"
+            disabled={!draft.trim()}
+            className="rounded bg-blue-600 px-3 py-1 text-sm text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
+          >
+            Send
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
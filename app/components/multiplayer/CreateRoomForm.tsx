@@ -1,17 +1,100 @@
 import { type SubmitEvent, useState } from "react";
 import { useNavigate } from "react-router";
 
+import type { StepResolution } from "~/types";
+import {
+  DEFAULT_KIT,
+  DEFAULT_MAX_PLAYERS,
+  DEFAULT_STEP_COUNT,
+  DRUM_KITS,
+  MAX_BPM,
+  MAX_PLAYERS,
+  MIN_BPM,
+  MIN_PLAYERS,
+  STEP_COUNTS,
+} from "~/types";
+import type { CreateRoomRequest, RoomVisibility } from "~/types/socket";
+import {
+  DEFAULT_TURN_DURATION,
+  MAX_PASSWORD_LENGTH,
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROUNDS,
+  MIN_ROUNDS,
+  TURN_DURATIONS,
+} from "~/types/socket";
+
+const PLAYER_COUNTS = Array.from(
+  { length: MAX_PLAYERS - MIN_PLAYERS + 1 },
+  (_, i) => MIN_PLAYERS + i,
+);
+
+const ROUND_COUNTS = Array.from(
+  { length: MAX_ROUNDS - MIN_ROUNDS + 1 },
+  (_, i) => MIN_ROUNDS + i,
+);
+
+const SELECT_CLASS =
+  "w-full rounded border border-gray-700 bg-gray-800 px-4 py-2 text-white focus:border-blue-500";
+
 export function CreateRoomForm() {
   const navigate = useNavigate();
   const [playerName, setPlayerName] = useState("");
+  const [maxPlayers, setMaxPlayers] = useState(DEFAULT_MAX_PLAYERS);
+  const [stepCount, setStepCount] = useState(DEFAULT_STEP_COUNT);
+  const [resolution, setResolution] = useState<StepResolution>("16th");
+  const [turnDuration, setTurnDuration] = useState(DEFAULT_TURN_DURATION);
+  const [rounds, setRounds] = useState<number | null>(null);
+  const [minBpm, setMinBpm] = useState(MIN_BPM);
+  const [maxBpm, setMaxBpm] = useState(MAX_BPM);
+  const [kit, setKit] = useState(DEFAULT_KIT);
+  const [visibility, setVisibility] = useState<RoomVisibility>("private");
+  const [password, setPassword] = useState("");
+  const [inviteOnly, setInviteOnly] = useState(false);
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
 
-  const handleCreate = (e: SubmitEvent<HTMLFormElement>) => {
+  const handleCreate = async (e: SubmitEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!playerName.trim()) return;
+    if (minBpm >= maxBpm) {
+      setError("The lowest tempo has to be below the highest");
+      return;
+    }
 
-    // Generate a simple room ID
-    const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
-    navigate(`/room/${roomId}?player=${encodeURIComponent(playerName)}`);
+    const request: CreateRoomRequest = {
+      maxPlayers,
+      stepCount,
+      resolution,
+      turnDuration,
+      rounds,
+      bpmRange: { min: minBpm, max: maxBpm },
+      kit,
+      visibility,
+      inviteOnly,
+      ...(password && { password }),
+    };
+    setIsCreating(true);
+    setError(null);
+    try {
+      // The server picks the room code
+      const res = await fetch("/api/rooms", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? "Could not create the room");
+      // The creator's own invite gets them past the password
+      navigate(
+        `/room/${body.roomId}?player=${encodeURIComponent(playerName)}`,
+        {
+          state: { invite: body.invite },
+        },
+      );
+    } catch (e) {
+      setError(e instanceof Error ? e.message : "Could not create the room");
+      setIsCreating(false);
+    }
   };
 
   return (
@@ -29,16 +112,229 @@ export function CreateRoomForm() {
           type="text"
           value={playerName}
           onChange={(e) => setPlayerName(e.target.value)}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
           placeholder="Enter your name"
           className="w-full rounded border border-gray-700 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 focus-visible:outline-none"
           required
         />
       </div>
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label
+            htmlFor="create-players"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Players
+          </label>
+          <select
+            id="create-players"
+            value={maxPlayers}
+            onChange={(e) => setMaxPlayers(Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            {PLAYER_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-steps"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Steps
+          </label>
+          <select
+            id="create-steps"
+            value={stepCount}
+            onChange={(e) => setStepCount(Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            {STEP_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-resolution"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Grid
+          </label>
+          <select
+            id="create-resolution"
+            value={resolution}
+            onChange={(e) => setResolution(e.target.value as StepResolution)}
+            className={SELECT_CLASS}
+          >
+            <option value="16th">1/16</option>
+            <option value="triplet">1/8 triplet</option>
+          </select>
+        </div>
+      </div>
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label
+            htmlFor="create-turn"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Turn Length
+          </label>
+          <select
+            id="create-turn"
+            value={turnDuration}
+            onChange={(e) => setTurnDuration(Number(e.target.value))}
+            className={SELECT_CLASS}
+          >
+            {TURN_DURATIONS.map((seconds) => (
+              <option key={seconds} value={seconds}>
+                {seconds}s
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-rounds"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Rounds
+          </label>
+          <select
+            id="create-rounds"
+            value={rounds ?? ""}
+            onChange={(e) =>
+              setRounds(e.target.value ? Number(e.target.value) : null)
+            }
+            className={SELECT_CLASS}
+          >
+            <option value="">No limit</option>
+            {ROUND_COUNTS.map((count) => (
+              <option key={count} value={count}>
+                {count}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-kit"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Kit
+          </label>
+          <select
+            id="create-kit"
+            value={kit}
+            onChange={(e) => setKit(e.target.value)}
+            className={SELECT_CLASS}
+          >
+            {DRUM_KITS.map(({ id, name }) => (
+              <option key={id} value={id}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </div>
+      </div>
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <label
+            htmlFor="create-min-bpm"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Lowest BPM
+          </label>
+          <input
+            id="create-min-bpm"
+            type="number"
+            min={MIN_BPM}
+            max={MAX_BPM}
+            value={minBpm}
+            onChange={(e) => setMinBpm(Number(e.target.value))}
+            className={SELECT_CLASS}
+            required
+          />
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-max-bpm"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Highest BPM
+          </label>
+          <input
+            id="create-max-bpm"
+            type="number"
+            min={MIN_BPM}
+            max={MAX_BPM}
+            value={maxBpm}
+            onChange={(e) => setMaxBpm(Number(e.target.value))}
+            className={SELECT_CLASS}
+            required
+          />
+        </div>
+        <div className="flex-1">
+          <label
+            htmlFor="create-visibility"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Visibility
+          </label>
+          <select
+            id="create-visibility"
+            value={visibility}
+            onChange={(e) => setVisibility(e.target.value as RoomVisibility)}
+            className={SELECT_CLASS}
+          >
+            <option value="private">Private</option>
+            <option value="public">Public</option>
+          </select>
+        </div>
+      </div>
+      <div className="flex items-end gap-4">
+        <div className="flex-1">
+          <label
+            htmlFor="create-password"
+            className="mb-1 block text-sm text-gray-400"
+          >
+            Password (optional)
+          </label>
+          <input
+            id="create-password"
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            maxLength={MAX_PASSWORD_LENGTH}
+            autoComplete="new-password"
+            className={SELECT_CLASS}
+          />
+        </div>
+        <label className="flex flex-1 items-center gap-2 py-2 text-sm text-gray-400">
+          <input
+            type="checkbox"
+            checked={inviteOnly}
+            onChange={(e) => setInviteOnly(e.target.checked)}
+          />
+          Invite only
+        </label>
+      </div>
+      {error && (
+        <p role="alert" className="text-sm text-red-400">
+          {error}
+        </p>
+      )}
       <button
         type="submit"
-        className="w-full rounded bg-blue-600 px-4 py-2 font-medium text-white transition-colors hover:bg-blue-500"
+        disabled={isCreating}
+        className="w-full rounded bg-blue-600 px-4 py-2 font-medium text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
       >
-        Create Room
+        {isCreating ? "Creating..." : "Create Room"}
       </button>
     </form>
   );
@@ -0,0 +1,91 @@
+import type { PlayerResult } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface GameResultsProps {
+  // Null while the last turn is still being rated
+  results: PlayerResult[] | null;
+  showScores: boolean;
+  onListenBack: () => void;
+  // Left out for spectators
+  onPlayAgain?: () => void;
+}
+
+export function GameResults({
+  results,
+  showScores,
+  onListenBack,
+  onPlayAgain,
+}: GameResultsProps) {
+  return (
+    <div className="space-y-3 rounded-lg bg-gray-800 p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <h3 className="text-sm font-medium tracking-wider text-white uppercase">
+          Game Over
+        </h3>
+        <div className="flex gap-2">
+          <button
+            onClick={onListenBack}
+            className="rounded bg-blue-600 px-3 py-1 text-sm text-white transition-colors hover:bg-blue-500"
+          >
+            Listen Back
+          </button>
+          {onPlayAgain && (
+            <button
+              onClick={onPlayAgain}
+              className="rounded bg-gray-700 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-600"
+            >
+              Play Again
+            </button>
+          )}
+        </div>
+      </div>
+
+      {results === null ? (
+        <p className="text-sm text-gray-400">
+          Waiting for the last turn to be rated...
+        </p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-sm text-gray-300">
+            <thead className="text-xs tracking-wider text-gray-400 uppercase">
+              <tr>
+                <th className="py-1 pr-4 font-medium">Player</th>
+                {showScores && (
+                  <th className="py-1 pr-4 font-medium">Rating</th>
+                )}
+                <th className="py-1 pr-4 font-medium">Added</th>
+                <th className="py-1 pr-4 font-medium">Removed</th>
+                <th className="py-1 pr-4 font-medium">Turns</th>
+                <th className="py-1 font-medium">Instruments</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.map((result) => (
+                <tr key={result.playerId} className="border-t border-gray-700">
+                  <td
+                    className={`py-1 pr-4 font-medium ${getPlayerColor(result.playerNumber)}`}
+                  >
+                    {result.name}
+                  </td>
+                  {showScores && (
+                    <td className="py-1 pr-4">
+                      {result.score === null
+                        ? "-"
+                        : `${result.score} (${result.ratings.length})`}
+                    </td>
+                  )}
+                  <td className="py-1 pr-4">{result.notesAdded}</td>
+                  <td className="py-1 pr-4">{result.notesRemoved}</td>
+                  <td className="py-1 pr-4">{result.turnsPlayed}</td>
+                  <td className="py-1 capitalize">
+                    {result.instrumentsUsed.join(", ") || "-"}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+import type { GameMode, GameSettings } from "~/types/socket";
+import { GAME_MODES, MAX_ROUNDS, MIN_ROUNDS } from "~/types/socket";
+
+const MODE_LABELS: Record<GameMode, string> = {
+  endless: "Endless",
+  rounds: "Fixed rounds",
+  vote: "Vote",
+};
+
+const MODE_DESCRIPTIONS: Record<GameMode, string> = {
+  endless: "Keep taking turns until someone resets the game.",
+  rounds: "Play a set number of rounds, then listen back to the result.",
+  vote: "Play a set number of rounds and rate each other's turns from 1 to 5.",
+};
+
+interface GameSetupProps {
+  game: GameSettings;
+  onChange: (game: GameSettings) => void;
+  // The rules are fixed once the first turn has been played
+  disabled?: boolean;
+}
+
+export function GameSetup({
+  game,
+  onChange,
+  disabled = false,
+}: GameSetupProps) {
+  const hasRounds = game.mode !== "endless";
+
+  return (
+    <div className="flex flex-wrap items-center gap-4 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center gap-2">
+        <label htmlFor="game-mode" className="text-sm text-gray-400">
+          Mode
+        </label>
+        <select
+          id="game-mode"
+          value={game.mode}
+          onChange={(e) =>
+            onChange({ ...game, mode: e.target.value as GameMode })
+          }
+          disabled={disabled}
+          className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+        >
+          {GAME_MODES.map((mode) => (
+            <option key={mode} value={mode}>
+              {MODE_LABELS[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {hasRounds && (
+        <div className="flex items-center gap-2">
+          <label htmlFor="game-rounds" className="text-sm text-gray-400">
+            Rounds
+          </label>
+          <select
+            id="game-rounds"
+            value={game.rounds}
+            onChange={(e) =>
+              onChange({ ...game, rounds: Number(e.target.value) })
+            }
+            disabled={disabled}
+            className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+          >
+            {Array.from(
+              { length: MAX_ROUNDS - MIN_ROUNDS + 1 },
+              (_, i) => MIN_ROUNDS + i,
+            ).map((rounds) => (
+              <option key={rounds} value={rounds}>
+                {rounds}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <p className="text-sm text-gray-400">{MODE_DESCRIPTIONS[game.mode]}</p>
+    </div>
+  );
+}
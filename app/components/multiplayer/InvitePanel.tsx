@@ -0,0 +1,62 @@
+import { useState } from "react";
+
+interface InvitePanelProps {
+  roomId: string;
+  invite: { token: string; expiresAt: number } | null;
+  onCreate: () => void;
+}
+
+export function InvitePanel({ roomId, invite, onCreate }: InvitePanelProps) {
+  const [copied, setCopied] = useState(false);
+  // Opens the join form with the code and invite filled in
+  const link =
+    invite &&
+    `${window.location.origin}/?${new URLSearchParams({ room: roomId, invite: invite.token })}`;
+
+  const handleCopy = async () => {
+    if (!link) return;
+    await navigator.clipboard.writeText(link);
+    setCopied(true);
+  };
+
+  const handleCreate = () => {
+    setCopied(false);
+    onCreate();
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 rounded-lg bg-gray-800 p-4 text-sm text-gray-300">
+      <button
+        onClick={handleCreate}
+        className="rounded bg-gray-700 px-3 py-1 text-white transition-colors hover:bg-gray-600"
+      >
+        {invite ? "New Invite Link" : "Create Invite Link"}
+      </button>
+      {link && invite && (
+        <>
+          <input
+            type="text"
+            value={link}
+            readOnly
+            onFocus={(e) => e.target.select()}
+            aria-label="Invite link"
+            className="min-w-0 flex-1 rounded bg-gray-700 px-3 py-1 text-white"
+          />
+          <button
+            onClick={handleCopy}
+            className="rounded bg-blue-600 px-3 py-1 text-white transition-colors hover:bg-blue-500"
+          >
+            {copied ? "Copied" : "Copy"}
+          </button>
+          <span className="text-gray-500">
+            Works once, until{" "}
+            {new Date(invite.expiresAt).toLocaleString([], {
+              dateStyle: "short",
+              timeStyle: "short",
+            })}
+          </span>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,17 +1,59 @@
 import { type SubmitEvent, useState } from "react";
-import { useNavigate } from "react-router";
+import { useLocation, useNavigate, useSearchParams } from "react-router";
+
+import { OpenRooms } from "./OpenRooms";
+
+import type { JoinCredentials } from "~/hooks/useSocket";
+import type { JoinRejectedReason } from "~/types/socket";
+import { MAX_PASSWORD_LENGTH, MAX_PLAYER_NAME_LENGTH } from "~/types/socket";
+
+// Handed back by the room page when the server turns a join down
+export interface JoinRejection {
+  roomId: string;
+  playerName: string;
+  reason: JoinRejectedReason;
+  // Still unused if the join failed for another reason
+  invite?: string;
+}
+
+const REJECTION_MESSAGES: Record<JoinRejectedReason, string> = {
+  "name-taken": "That name is already taken in this room",
+  "room-not-found": "There is no room with this code",
+  "password-required": "This room needs a password",
+  "wrong-password": "That password is not right",
+  "invite-required": "This room is invite only, ask a player for a link",
+  "invite-invalid": "This invite link is not valid or was already used",
+  "invite-expired": "This invite link has expired",
+};
 
 export function JoinRoomForm() {
   const navigate = useNavigate();
-  const [playerName, setPlayerName] = useState("");
-  const [roomId, setRoomId] = useState("");
+  // Invite links land here as /?room=<code>&invite=<token>
+  const [searchParams] = useSearchParams();
+  const rejection = useLocation().state as JoinRejection | null;
+  const [playerName, setPlayerName] = useState(rejection?.playerName ?? "");
+  const [roomId, setRoomId] = useState(
+    rejection?.roomId ?? searchParams.get("room")?.toUpperCase() ?? "",
+  );
+  const [password, setPassword] = useState("");
+  const invite = rejection?.invite ?? searchParams.get("invite");
+  // A used or expired invite won't work a second time
+  const canUseInvite =
+    invite !== null &&
+    rejection?.reason !== "invite-invalid" &&
+    rejection?.reason !== "invite-expired";
 
   const handleJoin = (e: SubmitEvent<HTMLFormElement>) => {
     e.preventDefault();
     if (!playerName.trim() || !roomId.trim()) return;
 
+    const credentials: JoinCredentials = {
+      ...(password && { password }),
+      ...(canUseInvite && { invite }),
+    };
     navigate(
       `/room/${roomId.toUpperCase()}?player=${encodeURIComponent(playerName)}`,
+      { state: credentials },
     );
   };
 
@@ -27,6 +69,7 @@ export function JoinRoomForm() {
           type="text"
           value={playerName}
           onChange={(e) => setPlayerName(e.target.value)}
+          maxLength={MAX_PLAYER_NAME_LENGTH}
           placeholder="Enter your name"
           className="w-full rounded border border-gray-700 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 focus-visible:outline-none"
           required
@@ -46,6 +89,32 @@ export function JoinRoomForm() {
           required
         />
       </div>
+      <div>
+        <label
+          htmlFor="join-password"
+          className="mb-1 block text-sm text-gray-400"
+        >
+          Password (if the room has one)
+        </label>
+        <input
+          id="join-password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          maxLength={MAX_PASSWORD_LENGTH}
+          autoComplete="current-password"
+          className="w-full rounded border border-gray-700 bg-gray-800 px-4 py-2 text-white focus:border-blue-500 focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-900 focus-visible:outline-none"
+        />
+      </div>
+      {canUseInvite && (
+        <p className="text-sm text-gray-400">Joining with an invite link</p>
+      )}
+      {rejection && (
+        <p role="alert" className="text-sm text-red-400">
+          {REJECTION_MESSAGES[rejection.reason]}
+        </p>
+      )}
+      <OpenRooms onPick={setRoomId} />
       <button
         type="submit"
         className="w-full rounded bg-green-600 px-4 py-2 font-medium text-white transition-colors hover:bg-green-500"
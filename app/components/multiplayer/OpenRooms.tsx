@@ -0,0 +1,47 @@
+import { useEffect, useState } from "react";
+
+import type { RoomSummary } from "~/types/socket";
+
+interface OpenRoomsProps {
+  onPick: (roomId: string) => void;
+}
+
+// Public rooms, fetched once when the home page opens
+export function OpenRooms({ onPick }: OpenRoomsProps) {
+  const [rooms, setRooms] = useState<RoomSummary[]>([]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch("/api/rooms", { signal: controller.signal })
+      .then((res) => res.json())
+      .then((body) => setRooms(body.rooms ?? []))
+      .catch(() => {});
+    return () => controller.abort();
+  }, []);
+
+  if (rooms.length === 0) return null;
+
+  return (
+    <div>
+      <p className="mb-1 text-sm text-gray-400">Open Rooms</p>
+      <ul className="space-y-1">
+        {rooms.map((room) => (
+          <li key={room.id}>
+            <button
+              type="button"
+              onClick={() => onPick(room.id)}
+              className="flex w-full justify-between rounded bg-gray-800 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-700"
+            >
+              <span className="font-mono">{room.id}</span>
+              <span className="text-gray-400">
+                {room.players}/{room.maxPlayers} players · Round {room.round}
+                {room.isActive && " · Playing"}
+                {room.hasPassword && " · Password"}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
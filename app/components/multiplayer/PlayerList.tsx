@@ -0,0 +1,91 @@
+import type { Player } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface PlayerListProps {
+  players: Player[];
+  order: number[];
+  maxPlayers: number;
+  currentPlayer: number;
+  myPlayerNumber: number | null;
+  onOrderChange: (order: number[]) => void;
+  // The order can only change between turns
+  orderDisabled?: boolean;
+}
+
+export function PlayerList({
+  players,
+  order,
+  maxPlayers,
+  currentPlayer,
+  myPlayerNumber,
+  onOrderChange,
+  orderDisabled = false,
+}: PlayerListProps) {
+  const seated = order
+    .map((n) => players.find((p) => p.playerNumber === n))
+    .filter((p) => p !== undefined);
+
+  const move = (index: number, offset: number) => {
+    const next = [...order];
+    [next[index], next[index + offset]] = [next[index + offset], next[index]];
+    onOrderChange(next);
+  };
+
+  return (
+    <div className="space-y-2 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium tracking-wider text-white uppercase">
+          Turn Order
+        </h3>
+        <span className="text-sm text-gray-400">
+          {players.length}/{maxPlayers} seats
+        </span>
+      </div>
+      <ol className="flex flex-wrap gap-2">
+        {seated.map((player, index) => (
+          <li
+            key={player.id}
+            className={`flex items-center gap-1 rounded px-2 py-1 text-sm ${
+              player.playerNumber === currentPlayer
+                ? "bg-gray-600"
+                : "bg-gray-700"
+            } ${player.connected ? "" : "opacity-50"}`}
+          >
+            <span className="text-gray-500">{index + 1}.</span>
+            <span
+              className={`font-medium ${getPlayerColor(player.playerNumber)}`}
+            >
+              {player.name}
+            </span>
+            {player.playerNumber === myPlayerNumber && (
+              <span className="text-gray-400">(you)</span>
+            )}
+            {!player.connected && (
+              <span className="text-yellow-500">(away)</span>
+            )}
+            {!orderDisabled && (
+              <>
+                <button
+                  onClick={() => move(index, -1)}
+                  disabled={index === 0}
+                  aria-label={`Move ${player.name} earlier`}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                >
+                  ‹
+                </button>
+                <button
+                  onClick={() => move(index, 1)}
+                  disabled={index === seated.length - 1}
+                  aria-label={`Move ${player.name} later`}
+                  className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+                >
+                  ›
+                </button>
+              </>
+            )}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+}
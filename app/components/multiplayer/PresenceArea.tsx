@@ -0,0 +1,37 @@
+import type { ReactNode } from "react";
+
+import type { Player } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface PresenceAreaProps {
+  // Other players looking at this part of the room
+  viewers: Player[];
+  onEnter: () => void;
+  children: ReactNode;
+}
+
+// Wraps a panel to report when this player moves into it, and names the
+// other players already there
+export function PresenceArea({
+  viewers,
+  onEnter,
+  children,
+}: PresenceAreaProps) {
+  return (
+    <div className="relative" onPointerEnter={onEnter} onFocus={onEnter}>
+      {viewers.length > 0 && (
+        <div className="pointer-events-none absolute -top-3 right-2 z-20 flex gap-1">
+          {viewers.map((player) => (
+            <span
+              key={player.id}
+              className={`rounded-full bg-gray-950 px-2 text-xs font-medium ${getPlayerColor(player.playerNumber)}`}
+            >
+              {player.name}
+            </span>
+          ))}
+        </div>
+      )}
+      {children}
+    </div>
+  );
+}
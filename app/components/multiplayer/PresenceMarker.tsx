@@ -0,0 +1,30 @@
+import { getPlayerColor, getPlayerOutline } from "~/utils/players";
+
+// Another player's pointer, placed on a grid or piano roll cell
+export interface PresenceCursor {
+  row: number;
+  step: number;
+  playerNumber: number;
+  name: string;
+}
+
+interface PresenceMarkerProps {
+  cursor: PresenceCursor;
+}
+
+// Outlines the cell it is placed in and badges it with the player's initial
+export function PresenceMarker({ cursor }: PresenceMarkerProps) {
+  return (
+    <span
+      aria-hidden
+      title={cursor.name}
+      className={`pointer-events-none absolute inset-0 rounded outline-2 outline-offset-1 ${getPlayerOutline(cursor.playerNumber)}`}
+    >
+      <span
+        className={`absolute -top-2 -right-2 rounded-full bg-gray-950 px-1 text-[10px] leading-4 font-bold ${getPlayerColor(cursor.playerNumber)}`}
+      >
+        {cursor.name.charAt(0).toUpperCase()}
+      </span>
+    </span>
+  );
+}
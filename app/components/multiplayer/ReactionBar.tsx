@@ -0,0 +1,23 @@
+import type { ReactionEmoji } from "~/types/socket";
+import { REACTIONS } from "~/types/socket";
+
+interface ReactionBarProps {
+  onReact: (emoji: ReactionEmoji) => void;
+}
+
+export function ReactionBar({ onReact }: ReactionBarProps) {
+  return (
+    <div className="flex gap-1" role="group" aria-label="Reactions">
+      {REACTIONS.map((emoji) => (
+        <button
+          key={emoji}
+          onClick={() => onReact(emoji)}
+          aria-label={`React with ${emoji}`}
+          className="rounded bg-gray-800 px-2 py-1 text-lg transition-colors hover:bg-gray-700"
+        >
+          {emoji}
+        </button>
+      ))}
+    </div>
+  );
+}
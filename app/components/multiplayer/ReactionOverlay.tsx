@@ -0,0 +1,40 @@
+import type { Player, Reaction } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface ReactionOverlayProps {
+  reactions: Reaction[];
+  players: Player[];
+}
+
+// Spread reactions across the panel, the same spot on every screen
+const getOffset = (id: string) => (parseInt(id.slice(0, 8), 16) % 80) + 10;
+
+// Floats reactions up over the panel it sits in; needs a positioned parent
+export function ReactionOverlay({ reactions, players }: ReactionOverlayProps) {
+  return (
+    <div
+      aria-hidden
+      className="pointer-events-none absolute inset-0 z-30 overflow-hidden"
+    >
+      {reactions.map((reaction) => {
+        const player = players.find((p) => p.id === reaction.playerId);
+        return (
+          <div
+            key={reaction.id}
+            className="animate-float-up absolute bottom-4 flex flex-col items-center"
+            style={{ left: `${getOffset(reaction.id)}%` }}
+          >
+            <span className="text-4xl">{reaction.emoji}</span>
+            {player && (
+              <span
+                className={`rounded-full bg-gray-950 px-2 text-xs font-medium ${getPlayerColor(player.playerNumber)}`}
+              >
+                {player.name}
+              </span>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+
+import type { Player, RestoreProposal, Snapshot } from "~/types/socket";
+import { getPlayerColor } from "~/utils/players";
+
+interface RoundHistoryProps {
+  snapshots: Snapshot[];
+  players: Player[];
+  proposal: RestoreProposal | null;
+  // This player's id, null for spectators
+  myPlayerId: string | null;
+  // The snapshot playing right now, if any
+  auditionId: string | null;
+  onAudition: (snapshot: Snapshot) => void;
+  onStopAudition: () => void;
+  onRequestRestore: (snapshotId: string) => void;
+  onAnswerRestore: (snapshotId: string, accept: boolean) => void;
+  // Restores only happen between turns
+  restoreDisabled?: boolean;
+}
+
+export function RoundHistory({
+  snapshots,
+  players,
+  proposal,
+  myPlayerId,
+  auditionId,
+  onAudition,
+  onStopAudition,
+  onRequestRestore,
+  onAnswerRestore,
+  restoreDisabled = false,
+}: RoundHistoryProps) {
+  // Null follows the newest snapshot as turns end
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  if (snapshots.length === 0) {
+    return (
+      <div className="rounded-lg bg-gray-800 p-4 text-sm text-gray-400">
+        The beat is saved here at the end of every turn.
+      </div>
+    );
+  }
+
+  const index = Math.min(
+    selectedIndex ?? snapshots.length - 1,
+    snapshots.length - 1,
+  );
+  const snapshot = snapshots[index];
+  const isAuditioning = auditionId === snapshot.id;
+
+  const proposed = proposal
+    ? snapshots.find((s) => s.id === proposal.snapshotId)
+    : undefined;
+  const proposer = players.find((p) => p.id === proposal?.approvals[0]);
+  const hasApproved =
+    myPlayerId !== null && !!proposal?.approvals.includes(myPlayerId);
+
+  return (
+    <div className="space-y-3 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-medium tracking-wider text-white uppercase">
+          Round History
+        </h3>
+        <span className="text-sm text-gray-400">
+          {index + 1}/{snapshots.length}
+        </span>
+      </div>
+
+      <input
+        type="range"
+        min={0}
+        max={snapshots.length - 1}
+        value={index}
+        onChange={(e) => {
+          const next = Number(e.target.value);
+          setSelectedIndex(next === snapshots.length - 1 ? null : next);
+        }}
+        aria-label="Snapshot"
+        className="w-full"
+      />
+
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <p className="text-sm text-gray-300">
+          Round {snapshot.round} by{" "}
+          <span
+            className={`font-medium ${getPlayerColor(snapshot.playerNumber)}`}
+          >
+            {snapshot.playerName}
+          </span>{" "}
+          <span className="text-gray-500">
+            · {snapshot.bpm} BPM ·{" "}
+            {new Date(snapshot.createdAt).toLocaleTimeString()}
+          </span>
+        </p>
+        <div className="flex gap-2">
+          <button
+            onClick={() =>
+              isAuditioning ? onStopAudition() : onAudition(snapshot)
+            }
+            className="rounded bg-gray-700 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-600"
+          >
+            {isAuditioning ? "Stop" : "Listen"}
+          </button>
+          {myPlayerId !== null && (
+            <button
+              onClick={() => onRequestRestore(snapshot.id)}
+              disabled={restoreDisabled || proposal !== null}
+              title={
+                restoreDisabled
+                  ? "Snapshots can only be restored between turns"
+                  : "Everyone in the room has to agree"
+              }
+              className="rounded bg-blue-600 px-3 py-1 text-sm text-white transition-colors hover:bg-blue-500 disabled:opacity-50"
+            >
+              Restore
+            </button>
+          )}
+        </div>
+      </div>
+
+      {proposal && (
+        <div className="flex flex-wrap items-center justify-between gap-2 rounded bg-gray-900 p-3 text-sm text-gray-300">
+          <span>
+            {proposer?.name ?? "A player"} wants to go back to round{" "}
+            {proposed?.round ?? "?"} by {proposed?.playerName ?? "someone"}
+            {hasApproved && ", waiting for everyone to agree..."}
+          </span>
+          {myPlayerId !== null && (
+            <div className="flex gap-2">
+              {!hasApproved && (
+                <button
+                  onClick={() => onAnswerRestore(proposal.snapshotId, true)}
+                  className="rounded bg-green-600 px-3 py-1 text-white transition-colors hover:bg-green-500"
+                >
+                  Accept
+                </button>
+              )}
+              <button
+                onClick={() => onAnswerRestore(proposal.snapshotId, false)}
+                className="rounded bg-gray-700 px-3 py-1 text-white transition-colors hover:bg-gray-600"
+              >
+                {hasApproved ? "Cancel" : "Decline"}
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
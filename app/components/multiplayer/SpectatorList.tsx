@@ -0,0 +1,25 @@
+import type { Spectator } from "~/types/socket";
+
+interface SpectatorListProps {
+  spectators: Spectator[];
+}
+
+export function SpectatorList({ spectators }: SpectatorListProps) {
+  if (spectators.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 text-sm text-gray-400">
+      <span>
+        {spectators.length} {spectators.length === 1 ? "viewer" : "viewers"}:
+      </span>
+      {spectators.map((spectator) => (
+        <span
+          key={spectator.id}
+          className="rounded bg-gray-800 px-2 py-0.5 text-gray-300"
+        >
+          {spectator.name}
+        </span>
+      ))}
+    </div>
+  );
+}
@@ -1,23 +1,43 @@
 interface TurnControlsProps {
   isActive: boolean;
+  // The game has played its last round
+  isFinished?: boolean;
   isCurrentPlayer: boolean;
+  currentPlayerName?: string;
   onStart: () => void;
   onEnd: () => void;
   onReset: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
 }
 
 export function TurnControls({
   isActive,
+  isFinished = false,
   isCurrentPlayer,
+  currentPlayerName,
   onStart,
   onEnd,
   onReset,
+  canUndo,
+  canRedo,
+  onUndo,
+  onRedo,
 }: TurnControlsProps) {
   const isMyTurn = isCurrentPlayer && !isActive;
 
   return (
     <div className="flex gap-4">
-      {isMyTurn ? (
+      {isFinished ? (
+        <button
+          disabled
+          className="rounded-lg bg-gray-600 px-6 py-3 font-medium text-gray-400 opacity-50"
+        >
+          Game Over
+        </button>
+      ) : isMyTurn ? (
         <button
           onClick={onStart}
           className="rounded-lg bg-blue-600 px-6 py-3 font-medium text-white transition-colors hover:bg-blue-500"
@@ -36,14 +56,35 @@ export function TurnControls({
           disabled
           className="rounded-lg bg-gray-600 px-6 py-3 font-medium text-gray-400 opacity-50"
         >
-          Waiting for opponent...
+          Waiting for {currentPlayerName ?? "the next player"}...
         </button>
       )}
+      {/* Undo only reaches back to the start of your own turn */}
+      {isCurrentPlayer && isActive && (
+        <>
+          <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            title="Undo (Ctrl+Z)"
+            className="rounded-lg bg-gray-700 px-4 py-3 font-medium text-white transition-colors hover:bg-gray-600 disabled:opacity-50"
+          >
+            Undo
+          </button>
+          <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            title="Redo (Ctrl+Shift+Z)"
+            className="rounded-lg bg-gray-700 px-4 py-3 font-medium text-white transition-colors hover:bg-gray-600 disabled:opacity-50"
+          >
+            Redo
+          </button>
+        </>
+      )}
       <button
         onClick={onReset}
         className="rounded-lg bg-gray-600 px-6 py-3 font-medium text-white transition-colors hover:bg-gray-500"
       >
-        Reset Game
+        {isFinished ? "Play Again" : "Reset Game"}
       </button>
     </div>
   );
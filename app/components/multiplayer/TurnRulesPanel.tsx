@@ -0,0 +1,66 @@
+import type { TurnRules } from "~/types/socket";
+import { MAX_NOTE_BUDGET } from "~/types/socket";
+
+const NOTE_BUDGETS = [4, 8, 16, 32, MAX_NOTE_BUDGET];
+
+interface TurnRulesPanelProps {
+  rules: TurnRules;
+  onChange: (rules: Partial<TurnRules>) => void;
+  // Rules only change between turns
+  disabled?: boolean;
+}
+
+export function TurnRulesPanel({
+  rules,
+  onChange,
+  disabled = false,
+}: TurnRulesPanelProps) {
+  return (
+    <fieldset
+      disabled={disabled}
+      className="flex min-w-0 flex-wrap items-center gap-4 rounded-lg bg-gray-800 p-4 text-sm text-gray-300"
+    >
+      <legend className="sr-only">Turn rules</legend>
+      <div className="flex items-center gap-2">
+        <label htmlFor="note-budget" className="text-gray-400">
+          Notes per turn
+        </label>
+        <select
+          id="note-budget"
+          value={rules.noteBudget ?? ""}
+          onChange={(e) =>
+            onChange({
+              noteBudget: e.target.value ? Number(e.target.value) : null,
+            })
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+        >
+          <option value="">No limit</option>
+          {NOTE_BUDGETS.map((budget) => (
+            <option key={budget} value={budget}>
+              {budget}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rules.assignInstruments}
+          onChange={(e) => onChange({ assignInstruments: e.target.checked })}
+        />
+        One instrument per turn
+      </label>
+
+      <label className="flex items-center gap-2">
+        <input
+          type="checkbox"
+          checked={rules.protectNotes}
+          onChange={(e) => onChange({ protectNotes: e.target.checked })}
+        />
+        Only remove your own notes
+      </label>
+    </fieldset>
+  );
+}
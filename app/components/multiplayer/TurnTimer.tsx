@@ -1,16 +1,44 @@
+import { useEffect, useState } from "react";
+
+import { getPlayerColor } from "~/utils/players";
+
 interface TurnTimerProps {
   timeRemaining: number;
-  currentPlayer: 1 | 2;
+  // Server deadline of the running turn and the server's clock offset
+  deadline: number | null;
+  clockOffset: number;
+  currentPlayer: number;
+  currentPlayerName?: string;
   isActive: boolean;
   round: number;
+  // Rounds in the game, if it has a set length
+  totalRounds?: number;
 }
 
 export function TurnTimer({
-  timeRemaining,
+  timeRemaining: serverTimeRemaining,
+  deadline,
+  clockOffset,
   currentPlayer,
+  currentPlayerName,
   isActive,
   round,
+  totalRounds,
 }: TurnTimerProps) {
+  const [now, setNow] = useState(() => Date.now());
+
+  // Count down locally between server ticks so the display stays smooth
+  useEffect(() => {
+    if (!isActive || deadline === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 250);
+    return () => clearInterval(interval);
+  }, [isActive, deadline]);
+
+  const timeRemaining =
+    isActive && deadline !== null
+      ? Math.max(0, Math.ceil((deadline - (now + clockOffset)) / 1000))
+      : serverTimeRemaining;
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -30,7 +58,12 @@ export function TurnTimer({
         <div className="text-xs tracking-wider text-gray-400 uppercase">
           Round
         </div>
-        <div className="text-2xl font-bold text-white">{round}</div>
+        <div className="text-2xl font-bold text-white">
+          {round}
+          {totalRounds !== undefined && (
+            <span className="text-base text-gray-500">/{totalRounds}</span>
+          )}
+        </div>
       </div>
 
       <div className="h-10 w-px bg-gray-700" />
@@ -39,10 +72,8 @@ export function TurnTimer({
         <div className="text-xs tracking-wider text-gray-400 uppercase">
           Player Turn
         </div>
-        <div
-          className={`text-xl font-bold ${currentPlayer === 1 ? "text-blue-400" : "text-purple-400"}`}
-        >
-          Player {currentPlayer}
+        <div className={`text-xl font-bold ${getPlayerColor(currentPlayer)}`}>
+          {currentPlayerName ?? `Player ${currentPlayer}`}
         </div>
       </div>
 
@@ -0,0 +1,49 @@
+import type { TurnVote as Vote } from "~/types/socket";
+import { MAX_RATING, MIN_RATING } from "~/types/socket";
+
+const RATINGS = Array.from(
+  { length: MAX_RATING - MIN_RATING + 1 },
+  (_, i) => MIN_RATING + i,
+);
+
+interface TurnVoteProps {
+  vote: Vote;
+  // This player's id, null for spectators
+  myPlayerId: string | null;
+  onRate: (rating: number) => void;
+}
+
+export function TurnVote({ vote, myPlayerId, onRate }: TurnVoteProps) {
+  const isOwnTurn = vote.playerId === myPlayerId;
+  const myRating = myPlayerId !== null ? vote.ratings[myPlayerId] : undefined;
+  const rated = Object.keys(vote.ratings).length;
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3 rounded-lg bg-gray-800 p-4 text-sm text-gray-300">
+      <span>
+        {isOwnTurn
+          ? "The others are rating your turn"
+          : `Rate ${vote.playerName}'s turn in round ${vote.round}`}
+        <span className="text-gray-500"> · {rated} rated so far</span>
+      </span>
+      {myPlayerId !== null && !isOwnTurn && (
+        <div className="flex gap-1" role="group" aria-label="Rating">
+          {RATINGS.map((rating) => (
+            <button
+              key={rating}
+              onClick={() => onRate(rating)}
+              aria-pressed={myRating === rating}
+              className={`h-8 w-8 rounded font-medium text-white transition-colors ${
+                myRating === rating
+                  ? "bg-yellow-500"
+                  : "bg-gray-700 hover:bg-gray-600"
+              }`}
+            >
+              {rating}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,147 @@
+import type { ArrangementEntry, Pattern, PlayMode } from "~/types";
+import { MAX_REPEATS } from "~/types";
+
+interface ArrangementProps {
+  patterns: Pattern[];
+  arrangement: ArrangementEntry[];
+  currentPatternId: string;
+  playMode: PlayMode;
+  onPlayModeChange: (playMode: PlayMode) => void;
+  onChange: (arrangement: ArrangementEntry[]) => void;
+  disabled?: boolean;
+}
+
+export function Arrangement({
+  patterns,
+  arrangement,
+  currentPatternId,
+  playMode,
+  onPlayModeChange,
+  onChange,
+  disabled = false,
+}: ArrangementProps) {
+  const updateEntry = (index: number, entry: Partial<ArrangementEntry>) =>
+    onChange(arrangement.map((e, i) => (i === index ? { ...e, ...entry } : e)));
+
+  const moveEntry = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= arrangement.length) return;
+    const next = [...arrangement];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-3 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center gap-4">
+        <h3 className="text-sm font-medium tracking-wider text-white uppercase">
+          Song
+        </h3>
+        <div className="flex overflow-hidden rounded" role="group">
+          {(["pattern", "song"] as const).map((mode) => (
+            <button
+              key={mode}
+              onClick={() => onPlayModeChange(mode)}
+              aria-pressed={playMode === mode}
+              className={`px-3 py-1 text-sm capitalize ${
+                playMode === mode
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
+            >
+              {mode}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() =>
+            onChange([
+              ...arrangement,
+              { patternId: currentPatternId, repeats: 1 },
+            ])
+          }
+          disabled={disabled}
+          className="ml-auto rounded bg-gray-600 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-500 disabled:opacity-50"
+        >
+          Add to song
+        </button>
+      </div>
+
+      {arrangement.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          The song is empty. Song mode plays the current pattern until you add
+          some.
+        </p>
+      ) : (
+        <ol className="flex flex-wrap gap-2">
+          {arrangement.map((entry, index) => (
+            <li
+              key={index}
+              className="flex items-center gap-1 rounded bg-gray-700 px-2 py-1 text-sm text-white"
+            >
+              <select
+                aria-label={`Pattern for slot ${index + 1}`}
+                value={entry.patternId}
+                onChange={(e) =>
+                  updateEntry(index, { patternId: e.target.value })
+                }
+                disabled={disabled}
+                className="rounded bg-gray-600 px-1"
+              >
+                {patterns.map((pattern) => (
+                  <option key={pattern.id} value={pattern.id}>
+                    {pattern.name}
+                  </option>
+                ))}
+              </select>
+              <span className="text-gray-400">×</span>
+              <input
+                type="number"
+                aria-label={`Repeats for slot ${index + 1}`}
+                min={1}
+                max={MAX_REPEATS}
+                value={entry.repeats}
+                onChange={(e) =>
+                  updateEntry(index, {
+                    repeats: Math.max(
+                      1,
+                      Math.min(MAX_REPEATS, Number(e.target.value) || 1),
+                    ),
+                  })
+                }
+                disabled={disabled}
+                className="w-10 rounded bg-gray-600 px-1 text-center"
+              />
+              <button
+                onClick={() => moveEntry(index, -1)}
+                disabled={disabled || index === 0}
+                aria-label="Move earlier"
+                className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ‹
+              </button>
+              <button
+                onClick={() => moveEntry(index, 1)}
+                disabled={disabled || index === arrangement.length - 1}
+                aria-label="Move later"
+                className="px-1 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ›
+              </button>
+              <button
+                onClick={() =>
+                  onChange(arrangement.filter((_, i) => i !== index))
+                }
+                disabled={disabled}
+                aria-label="Remove from song"
+                className="px-1 text-gray-400 hover:text-red-400 disabled:opacity-30"
+              >
+                ✕
+              </button>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,113 @@
+import type {
+  DelayDivision,
+  DelaySettings,
+  EffectsState,
+  ReverbSettings,
+} from "~/types";
+import { DELAY_DIVISIONS } from "~/utils/effects";
+
+interface EffectsPanelProps {
+  effects: EffectsState;
+  onChange: (params: {
+    reverb?: Partial<ReverbSettings>;
+    delay?: Partial<DelaySettings>;
+  }) => void;
+}
+
+export function EffectsPanel({ effects, onChange }: EffectsPanelProps) {
+  const { reverb, delay } = effects;
+
+  return (
+    <div className="flex flex-wrap items-end gap-6 rounded-lg bg-gray-800 p-4">
+      <div className="text-xs font-medium tracking-wider text-white uppercase">
+        Reverb
+      </div>
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Decay {reverb.decay.toFixed(1)}s
+        </span>
+        <input
+          type="range"
+          min={0.2}
+          max={6}
+          step={0.1}
+          value={reverb.decay}
+          onChange={(e) =>
+            onChange({ reverb: { decay: Number(e.target.value) } })
+          }
+          className="w-24"
+        />
+      </label>
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Return {Math.round(reverb.returnLevel * 100)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={reverb.returnLevel}
+          onChange={(e) =>
+            onChange({ reverb: { returnLevel: Number(e.target.value) } })
+          }
+          className="w-24"
+        />
+      </label>
+
+      <div className="h-10 w-px bg-gray-700" />
+
+      <div className="text-xs font-medium tracking-wider text-white uppercase">
+        Delay
+      </div>
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">Time</span>
+        <select
+          value={delay.division}
+          onChange={(e) =>
+            onChange({ delay: { division: e.target.value as DelayDivision } })
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          {Object.keys(DELAY_DIVISIONS).map((division) => (
+            <option key={division} value={division}>
+              {division}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Feedback {Math.round(delay.feedback * 100)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={0.95}
+          step={0.01}
+          value={delay.feedback}
+          onChange={(e) =>
+            onChange({ delay: { feedback: Number(e.target.value) } })
+          }
+          className="w-24"
+        />
+      </label>
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Return {Math.round(delay.returnLevel * 100)}
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={delay.returnLevel}
+          onChange={(e) =>
+            onChange({ delay: { returnLevel: Number(e.target.value) } })
+          }
+          className="w-24"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,77 @@
+import { useState } from "react";
+
+import { EXPORT_CONFIG, type WavBitDepth } from "~/utils/export";
+
+interface ExportControlsProps {
+  onExport: (loops: number, bitDepth: WavBitDepth) => Promise<void>;
+}
+
+export function ExportControls({ onExport }: ExportControlsProps) {
+  const [loops, setLoops] = useState(4);
+  const [bitDepth, setBitDepth] = useState<WavBitDepth>(16);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setError(null);
+    try {
+      await onExport(loops, bitDepth);
+    } catch (e) {
+      console.error("Export failed:", e);
+      setError(e instanceof Error ? e.message : "Export failed");
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center gap-2">
+        <label htmlFor="export-loops" className="text-sm text-gray-400">
+          Loops
+        </label>
+        <select
+          id="export-loops"
+          value={loops}
+          onChange={(e) => setLoops(Number(e.target.value))}
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          {EXPORT_CONFIG.LOOP_OPTIONS.map((option) => (
+            <option key={option} value={option}>
+              {option}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="export-bit-depth" className="text-sm text-gray-400">
+          Bit Depth
+        </label>
+        <select
+          id="export-bit-depth"
+          value={bitDepth}
+          onChange={(e) => setBitDepth(Number(e.target.value) as WavBitDepth)}
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          <option value={16}>16-bit</option>
+          <option value={24}>24-bit</option>
+        </select>
+      </div>
+
+      <button
+        onClick={handleExport}
+        disabled={isExporting}
+        className="ml-auto rounded bg-blue-600 px-4 py-2 font-medium text-white transition-colors hover:bg-blue-500 focus-visible:ring-2 focus-visible:ring-blue-500 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800 disabled:cursor-not-allowed disabled:opacity-50"
+      >
+        {isExporting ? "Rendering..." : "Export WAV"}
+      </button>
+      {error && (
+        <span role="alert" className="text-sm text-red-400">
+          Export failed: {error}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,31 @@
 import { InstrumentRow } from "./InstrumentRow";
 
-import type { Instrument, Step } from "~/types";
+import type { PresenceCursor } from "~/components/multiplayer/PresenceMarker";
+import type { Instrument, SampleStatus, Step, UploadedSample } from "~/types";
 
 interface GridProps {
   instruments: Instrument[];
   steps: Step[][];
   currentStep: number;
   onToggleStep: (instrumentIndex: number, stepIndex: number) => void;
+  onStepVelocityChange?: (
+    instrumentIndex: number,
+    stepIndex: number,
+    velocity: number,
+  ) => void;
+  sampleStatus?: Record<string, SampleStatus>;
+  customSamples?: Record<string, UploadedSample>;
+  onDropSample?: (instrumentIndex: number, file: File) => void;
+  // Null once the pointer leaves the grid
+  onHoverCell?: (cell: { row: number; step: number } | null) => void;
+  // Where the other players are pointing
+  cursors?: PresenceCursor[];
+  // Rows the running turn may not touch, by instrument index
+  lockedRows?: boolean[];
+  // Steps placed by other players while the rules protect them
+  isProtected?: (step: Step) => boolean;
+  // Notes the running turn may still add, null for no limit
+  notesLeft?: number | null;
   disabled?: boolean;
 }
 
@@ -15,10 +34,26 @@ export function Grid({
   steps,
   currentStep,
   onToggleStep,
+  onStepVelocityChange,
+  sampleStatus = {},
+  customSamples = {},
+  onDropSample,
+  onHoverCell,
+  cursors = [],
+  lockedRows = [],
+  isProtected,
+  notesLeft = null,
   disabled = false,
 }: GridProps) {
   return (
     <div className="flex flex-col gap-2 overflow-x-auto rounded-lg bg-gray-900 p-4">
+      {notesLeft !== null && (
+        <p className="text-sm text-gray-400">
+          {notesLeft === 0
+            ? "No notes left this turn"
+            : `${notesLeft} ${notesLeft === 1 ? "note" : "notes"} left this turn`}
+        </p>
+      )}
       {instruments.map((instrument, instrumentIndex) => (
         <InstrumentRow
           key={instrument.id}
@@ -26,6 +61,28 @@ export function Grid({
           steps={steps[instrumentIndex] || []}
           currentStep={currentStep}
           onToggleStep={(stepIndex) => onToggleStep(instrumentIndex, stepIndex)}
+          onVelocityChange={
+            onStepVelocityChange &&
+            ((stepIndex, velocity) =>
+              onStepVelocityChange(instrumentIndex, stepIndex, velocity))
+          }
+          sampleStatus={sampleStatus[instrument.id]}
+          customSample={customSamples[instrument.id]}
+          onDropSample={
+            onDropSample && ((file) => onDropSample(instrumentIndex, file))
+          }
+          onHoverStep={
+            onHoverCell &&
+            ((stepIndex) =>
+              onHoverCell(
+                stepIndex === null
+                  ? null
+                  : { row: instrumentIndex, step: stepIndex },
+              ))
+          }
+          cursors={cursors.filter((c) => c.row === instrumentIndex)}
+          locked={lockedRows[instrumentIndex]}
+          isProtected={isProtected}
           disabled={disabled}
         />
       ))}
@@ -1,12 +1,25 @@
+import { type DragEvent, useState } from "react";
+
 import { StepComponent } from "./Step";
 
-import type { Instrument, Step } from "~/types";
+import type { PresenceCursor } from "~/components/multiplayer/PresenceMarker";
+import type { Instrument, SampleStatus, Step, UploadedSample } from "~/types";
 
 interface InstrumentRowProps {
   instrument: Instrument;
   steps: Step[];
   currentStep: number;
   onToggleStep: (stepIndex: number) => void;
+  onVelocityChange?: (stepIndex: number, velocity: number) => void;
+  sampleStatus?: SampleStatus;
+  customSample?: UploadedSample;
+  onDropSample?: (file: File) => void;
+  // Null once the pointer leaves the row
+  onHoverStep?: (stepIndex: number | null) => void;
+  cursors?: PresenceCursor[];
+  // The running turn was given another instrument
+  locked?: boolean;
+  isProtected?: (step: Step) => boolean;
   disabled?: boolean;
 }
 
@@ -15,17 +28,85 @@ export function InstrumentRow({
   steps,
   currentStep,
   onToggleStep,
+  onVelocityChange,
+  sampleStatus,
+  customSample,
+  onDropSample,
+  onHoverStep,
+  cursors = [],
+  locked = false,
+  isProtected,
   disabled = false,
 }: InstrumentRowProps) {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (e: DragEvent<HTMLDivElement>) => {
+    if (!onDropSample || !e.dataTransfer.types.includes("Files")) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (e: DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file && onDropSample) onDropSample(file);
+  };
+
+  const title =
+    sampleStatus === "error"
+      ? `${instrument.name} sample failed to load`
+      : locked
+        ? `${instrument.name} is locked this turn`
+        : customSample
+          ? `Custom sample: ${customSample.fileName}`
+          : onDropSample
+            ? "Drop an audio file here to replace this sound"
+            : undefined;
+
   return (
-    <div className="flex items-center gap-1 sm:gap-2">
+    <div
+      className={`flex items-center gap-1 rounded sm:gap-2 ${isDragOver ? "ring-2 ring-white ring-offset-2 ring-offset-gray-900" : ""}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
       <div
-        className="w-20 truncate rounded px-2 py-1 text-xs font-medium text-white sm:w-24 sm:text-sm"
+        className={`flex w-20 items-center justify-between gap-1 truncate rounded px-2 py-1 text-xs font-medium text-white sm:w-24 sm:text-sm ${sampleStatus === "loading" ? "animate-pulse" : ""}`}
         style={{ backgroundColor: instrument.color }}
+        title={title}
       >
-        {instrument.name}
+        <span className="truncate">{instrument.name}</span>
+        {locked ? (
+          <span
+            aria-label="Locked this turn"
+            className="rounded-full bg-gray-950 px-1.5 text-gray-400"
+          >
+            🔒
+          </span>
+        ) : sampleStatus === "error" ? (
+          <span
+            aria-label="Sample failed to load"
+            className="rounded-full bg-gray-950 px-1.5 text-red-400"
+          >
+            !
+          </span>
+        ) : (
+          customSample && (
+            <span
+              aria-label="Custom sample"
+              className="rounded-full bg-gray-950 px-1.5 text-white"
+            >
+              ★
+            </span>
+          )
+        )}
       </div>
-      <div className="flex gap-0.5 sm:gap-1">
+      <div
+        className="flex gap-0.5 sm:gap-1"
+        onPointerLeave={onHoverStep && (() => onHoverStep(null))}
+      >
         {steps.map((step, index) => (
           <StepComponent
             key={index}
@@ -33,7 +114,14 @@ export function InstrumentRow({
             isCurrentStep={currentStep === index}
             instrumentColor={instrument.color}
             onClick={() => onToggleStep(index)}
-            disabled={disabled}
+            onVelocityChange={
+              onVelocityChange &&
+              ((velocity) => onVelocityChange(index, velocity))
+            }
+            onHover={onHoverStep && (() => onHoverStep(index))}
+            cursor={cursors.find((cursor) => cursor.step === index)}
+            isProtected={step.active && !!isProtected?.(step)}
+            disabled={disabled || locked}
           />
         ))}
       </div>
@@ -0,0 +1,52 @@
+import type { Instrument, SampleStatus } from "~/types";
+import { DRUM_KITS } from "~/types";
+
+interface KitPickerProps {
+  kit: string;
+  instruments: Instrument[];
+  sampleStatus: Record<string, SampleStatus>;
+  onKitChange: (kit: string) => void;
+}
+
+export function KitPicker({
+  kit,
+  instruments,
+  sampleStatus,
+  onKitChange,
+}: KitPickerProps) {
+  const failed = instruments.filter((i) => sampleStatus[i.id] === "error");
+  const isLoading = instruments.some((i) => sampleStatus[i.id] === "loading");
+
+  return (
+    <div className="flex items-center gap-4 rounded-lg bg-gray-800 p-4">
+      <div className="flex items-center gap-2">
+        <label htmlFor="kit" className="text-sm text-gray-400">
+          Kit
+        </label>
+        <select
+          id="kit"
+          value={kit}
+          onChange={(e) => onKitChange(e.target.value)}
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          {DRUM_KITS.map(({ id, name }) => (
+            <option key={id} value={id}>
+              {name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {isLoading && (
+        <span className="animate-pulse text-sm text-gray-400">
+          Loading samples...
+        </span>
+      )}
+      {failed.length > 0 && (
+        <span role="alert" className="text-sm text-red-400">
+          Failed to load: {failed.map((i) => i.name).join(", ")}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import { PeakMeter } from "./PeakMeter";
+
+import type {
+  ChannelEffects,
+  EffectsState,
+  Instrument,
+  MixerChannel,
+  MixerState,
+} from "~/types";
+import { PIANO_CHANNEL } from "~/types";
+
+interface MixerProps {
+  instruments: Instrument[];
+  mixer: MixerState;
+  effects: EffectsState;
+  onChannelChange: (channelId: string, channel: Partial<MixerChannel>) => void;
+  onChannelEffectsChange: (
+    channelId: string,
+    effects: Partial<ChannelEffects>,
+  ) => void;
+  onMasterVolumeChange: (masterVolume: number) => void;
+  getMasterPeak: () => number;
+}
+
+const PIANO_STRIP = { id: PIANO_CHANNEL, name: "Piano", color: "#a855f7" };
+
+export function Mixer({
+  instruments,
+  mixer,
+  effects,
+  onChannelChange,
+  onChannelEffectsChange,
+  onMasterVolumeChange,
+  getMasterPeak,
+}: MixerProps) {
+  const strips = [...instruments, PIANO_STRIP];
+
+  return (
+    <div className="rounded-lg bg-gray-900 p-4">
+      <h3 className="mb-3 text-lg font-semibold text-white">Mixer</h3>
+      <div className="flex gap-3 overflow-x-auto">
+        {strips.map(({ id, name, color }) => {
+          const channel = mixer.channels[id];
+          const channelEffects = effects.channels[id];
+          if (!channel || !channelEffects) return null;
+
+          return (
+            <div
+              key={id}
+              className="flex w-24 shrink-0 flex-col gap-2 rounded bg-gray-800 p-2"
+            >
+              <div
+                className="truncate rounded px-2 py-1 text-xs font-medium text-white"
+                style={{ backgroundColor: color }}
+              >
+                {name}
+              </div>
+
+              <label className="text-xs text-gray-400">
+                Vol {Math.round(channel.volume * 100)}
+                <input
+                  type="range"
+                  min={0}
+                  max={1}
+                  step={0.01}
+                  value={channel.volume}
+                  onChange={(e) =>
+                    onChannelChange(id, { volume: Number(e.target.value) })
+                  }
+                  className="w-full"
+                />
+              </label>
+
+              <label className="text-xs text-gray-400">
+                Pan{" "}
+                {channel.pan === 0
+                  ? "C"
+                  : `${channel.pan < 0 ? "L" : "R"}${Math.round(Math.abs(channel.pan) * 100)}`}
+                <input
+                  type="range"
+                  min={-1}
+                  max={1}
+                  step={0.01}
+                  value={channel.pan}
+                  onChange={(e) =>
+                    onChannelChange(id, { pan: Number(e.target.value) })
+                  }
+                  onDoubleClick={() => onChannelChange(id, { pan: 0 })}
+                  className="w-full"
+                />
+              </label>
+
+              <ChannelEffectControls
+                effects={channelEffects}
+                onChange={(patch) => onChannelEffectsChange(id, patch)}
+              />
+
+              <div className="flex gap-1">
+                <button
+                  onClick={() => onChannelChange(id, { mute: !channel.mute })}
+                  aria-pressed={channel.mute}
+                  className={`flex-1 rounded py-1 text-xs font-bold transition-colors ${
+                    channel.mute
+                      ? "bg-red-600 text-white"
+                      : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                  }`}
+                >
+                  M
+                </button>
+                <button
+                  onClick={() => onChannelChange(id, { solo: !channel.solo })}
+                  aria-pressed={channel.solo}
+                  className={`flex-1 rounded py-1 text-xs font-bold transition-colors ${
+                    channel.solo
+                      ? "bg-yellow-500 text-gray-900"
+                      : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+                  }`}
+                >
+                  S
+                </button>
+              </div>
+            </div>
+          );
+        })}
+
+        <div className="flex w-28 shrink-0 items-end gap-2 rounded bg-gray-800 p-2">
+          <label className="flex-1 text-xs text-gray-400">
+            <div className="mb-2 rounded bg-gray-600 px-2 py-1 font-medium text-white">
+              Master
+            </div>
+            Vol {Math.round(mixer.masterVolume * 100)}
+            <input
+              type="range"
+              min={0}
+              max={1}
+              step={0.01}
+              value={mixer.masterVolume}
+              onChange={(e) => onMasterVolumeChange(Number(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <PeakMeter getPeak={getMasterPeak} />
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Filter cutoff slider works on a log scale so the low end is usable
+const MIN_CUTOFF = 20;
+const MAX_CUTOFF = 18000;
+const toCutoff = (position: number) =>
+  Math.round(MIN_CUTOFF * (MAX_CUTOFF / MIN_CUTOFF) ** position);
+const toPosition = (cutoff: number) =>
+  Math.log(cutoff / MIN_CUTOFF) / Math.log(MAX_CUTOFF / MIN_CUTOFF);
+
+interface ChannelEffectControlsProps {
+  effects: ChannelEffects;
+  onChange: (effects: Partial<ChannelEffects>) => void;
+}
+
+function ChannelEffectControls({
+  effects,
+  onChange,
+}: ChannelEffectControlsProps) {
+  return (
+    <>
+      <label className="text-xs text-gray-400">
+        Rev {Math.round(effects.reverbSend * 100)}
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={effects.reverbSend}
+          onChange={(e) => onChange({ reverbSend: Number(e.target.value) })}
+          className="w-full"
+        />
+      </label>
+
+      <label className="text-xs text-gray-400">
+        Dly {Math.round(effects.delaySend * 100)}
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.01}
+          value={effects.delaySend}
+          onChange={(e) => onChange({ delaySend: Number(e.target.value) })}
+          className="w-full"
+        />
+      </label>
+
+      <div className="flex gap-1">
+        {(["lowpass", "highpass"] as const).map((filterType) => (
+          <button
+            key={filterType}
+            onClick={() => onChange({ filterType })}
+            aria-pressed={effects.filterType === filterType}
+            className={`flex-1 rounded py-1 text-xs font-bold transition-colors ${
+              effects.filterType === filterType
+                ? "bg-blue-600 text-white"
+                : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+            }`}
+          >
+            {filterType === "lowpass" ? "LP" : "HP"}
+          </button>
+        ))}
+      </div>
+
+      <label className="text-xs text-gray-400">
+        Cut {effects.filterCutoff}Hz
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.001}
+          value={toPosition(effects.filterCutoff)}
+          onChange={(e) =>
+            onChange({ filterCutoff: toCutoff(Number(e.target.value)) })
+          }
+          className="w-full"
+        />
+      </label>
+
+      <label className="text-xs text-gray-400">
+        Res {effects.filterResonance.toFixed(1)}
+        <input
+          type="range"
+          min={0.1}
+          max={20}
+          step={0.1}
+          value={effects.filterResonance}
+          onChange={(e) =>
+            onChange({ filterResonance: Number(e.target.value) })
+          }
+          className="w-full"
+        />
+      </label>
+    </>
+  );
+}
@@ -0,0 +1,95 @@
+import type { Pattern } from "~/types";
+import { MAX_PATTERNS } from "~/types";
+
+interface PatternListProps {
+  patterns: Pattern[];
+  currentPatternId: string;
+  playingPatternId: string | null;
+  onSelect: (patternId: string) => void;
+  onAdd: () => void;
+  onDuplicate: (patternId: string) => void;
+  onRename: (patternId: string, name: string) => void;
+  onDelete: (patternId: string) => void;
+  // The current pattern holds notes the turn rules keep it from removing
+  deleteDisabled?: boolean;
+  disabled?: boolean;
+}
+
+export function PatternList({
+  patterns,
+  currentPatternId,
+  playingPatternId,
+  onSelect,
+  onAdd,
+  onDuplicate,
+  onRename,
+  onDelete,
+  deleteDisabled = false,
+  disabled = false,
+}: PatternListProps) {
+  const current = patterns.find((p) => p.id === currentPatternId);
+  const isFull = patterns.length >= MAX_PATTERNS;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg bg-gray-800 p-4">
+      <span className="text-sm text-gray-400">Patterns</span>
+      {patterns.map((pattern) => (
+        <button
+          key={pattern.id}
+          onClick={() => onSelect(pattern.id)}
+          aria-pressed={pattern.id === currentPatternId}
+          className={`rounded px-3 py-1 text-sm font-medium transition-colors ${
+            pattern.id === currentPatternId
+              ? "bg-blue-600 text-white"
+              : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+          } ${pattern.id === playingPatternId ? "ring-2 ring-green-500" : ""}`}
+        >
+          {pattern.name}
+        </button>
+      ))}
+
+      <div className="ml-auto flex items-center gap-2">
+        {current && (
+          <input
+            // Remount when switching so the field shows the new name
+            key={current.id}
+            aria-label="Pattern name"
+            defaultValue={current.name}
+            maxLength={20}
+            disabled={disabled}
+            onBlur={(e) => {
+              const name = e.target.value.trim();
+              if (name && name !== current.name) onRename(current.id, name);
+              else e.target.value = current.name;
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") e.currentTarget.blur();
+            }}
+            className="w-24 rounded bg-gray-700 px-2 py-1 text-sm text-white disabled:opacity-50"
+          />
+        )}
+        <button
+          onClick={onAdd}
+          disabled={disabled || isFull}
+          className="rounded bg-gray-600 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-500 disabled:opacity-50"
+        >
+          New
+        </button>
+        <button
+          onClick={() => onDuplicate(currentPatternId)}
+          disabled={disabled || isFull}
+          className="rounded bg-gray-600 px-3 py-1 text-sm text-white transition-colors hover:bg-gray-500 disabled:opacity-50"
+        >
+          Duplicate
+        </button>
+        <button
+          onClick={() => onDelete(currentPatternId)}
+          disabled={disabled || deleteDisabled || patterns.length <= 1}
+          className="rounded bg-gray-600 px-3 py-1 text-sm text-white transition-colors hover:bg-red-600 disabled:opacity-50"
+        >
+          Delete
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import { useEffect, useRef } from "react";
+
+interface PeakMeterProps {
+  getPeak: () => number;
+}
+
+// How much of the held peak survives each animation frame
+const DECAY = 0.92;
+
+export function PeakMeter({ getPeak }: PeakMeterProps) {
+  const barRef = useRef<HTMLDivElement>(null);
+  const getPeakRef = useRef(getPeak);
+
+  useEffect(() => {
+    getPeakRef.current = getPeak;
+  }, [getPeak]);
+
+  useEffect(() => {
+    let frame = 0;
+    let held = 0;
+
+    // Write straight to the DOM so metering doesn't re-render every frame
+    const tick = () => {
+      held = Math.max(getPeakRef.current(), held * DECAY);
+      const bar = barRef.current;
+      if (bar) {
+        bar.style.height = `${Math.min(1, held) * 100}%`;
+        bar.style.backgroundColor =
+          held >= 1 ? "#ef4444" : held >= 0.7 ? "#eab308" : "#22c55e";
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+
+    return () => cancelAnimationFrame(frame);
+  }, []);
+
+  return (
+    <div className="relative h-24 w-3 overflow-hidden rounded-sm bg-gray-700">
+      <div ref={barRef} className="absolute bottom-0 w-full" />
+    </div>
+  );
+}
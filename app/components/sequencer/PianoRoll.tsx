@@ -1,9 +1,33 @@
+import { type CSSProperties, type PointerEvent, useRef, useState } from "react";
+
+import {
+  type PresenceCursor,
+  PresenceMarker,
+} from "~/components/multiplayer/PresenceMarker";
+import { useVelocityDrag } from "~/hooks/useVelocityDrag";
+import type { PianoNote } from "~/types";
 import { PIANO_NOTES } from "~/types";
 
+type NoteShape = Pick<PianoNote, "noteIndex" | "start" | "duration">;
+
 interface PianoRollProps {
-  pianoSteps: Map<number, Set<number>>;
+  pianoNotes: PianoNote[];
+  totalSteps: number;
   currentStep: number;
-  onToggleNote: (stepIndex: number, noteIndex: number) => void;
+  onAddNote: (note: NoteShape) => void;
+  onRemoveNote: (noteId: string) => void;
+  onResizeNote: (noteId: string, duration: number) => void;
+  onVelocityChange?: (noteId: string, velocity: number) => void;
+  // Null once the pointer leaves the piano roll
+  onHoverCell?: (cell: { row: number; step: number } | null) => void;
+  // Where the other players are pointing; `row` is the note index
+  cursors?: PresenceCursor[];
+  // The running turn was given a drum row instead
+  locked?: boolean;
+  // Notes placed by other players while the rules protect them
+  isProtected?: (note: PianoNote) => boolean;
+  // Notes the running turn may still add, null for no limit
+  notesLeft?: number | null;
   disabled?: boolean;
 }
 
@@ -36,19 +60,295 @@ const NOTE_COLORS = [
 
 const BLACK_KEYS = [1, 3, 6, 8, 10, 13, 15, 18, 20, 22];
 
+// An in-progress drag that creates a note or changes its length.
+// `end` is the last step the note covers, `maxEnd` the furthest it may reach.
+interface NoteDrag {
+  noteId?: string;
+  start: number;
+  end: number;
+  maxEnd: number;
+}
+
+interface NoteBarProps {
+  note: PianoNote;
+  duration: number;
+  color: string;
+  isCurrent: boolean;
+  isProtected: boolean;
+  disabled: boolean;
+  onRemove: () => void;
+  onResizeStart: (e: PointerEvent<HTMLElement>) => void;
+  onVelocityChange?: (velocity: number) => void;
+}
+
+function NoteBar({
+  note,
+  duration,
+  color,
+  isCurrent,
+  isProtected,
+  disabled: disabledProp,
+  onRemove,
+  onResizeStart,
+  onVelocityChange,
+}: NoteBarProps) {
+  const disabled = disabledProp || isProtected;
+  const { dragHandlers, consumeClick } = useVelocityDrag(
+    note.velocity,
+    disabled ? undefined : onVelocityChange,
+  );
+
+  return (
+    <div
+      role="button"
+      tabIndex={disabled ? -1 : 0}
+      onClick={() => consumeClick() && !disabled && onRemove()}
+      onKeyDown={(e) => {
+        if (!disabled && (e.key === "Delete" || e.key === "Backspace")) {
+          e.preventDefault();
+          onRemove();
+        }
+      }}
+      {...dragHandlers}
+      aria-label={`${PIANO_NOTES[note.noteIndex]}, ${duration} steps, velocity ${Math.round(note.velocity * 100)}%`}
+      title={
+        isProtected
+          ? "Placed by another player, so only they can remove it"
+          : disabled
+            ? undefined
+            : "Click to remove, drag up/down for velocity, drag the right edge to change length"
+      }
+      className={`relative z-10 h-6 touch-none rounded-sm sm:h-8 ${disabled ? "cursor-not-allowed" : "cursor-ns-resize"} ${isCurrent ? "ring-2 ring-white ring-offset-1 ring-offset-gray-900" : ""}`}
+      style={{
+        gridColumn: `${note.start + 1} / span ${duration}`,
+        gridRow: 1,
+        backgroundColor: color,
+        opacity: 0.4 + note.velocity * 0.6,
+      }}
+    >
+      {!disabled && (
+        <div
+          onPointerDown={(e) => {
+            e.stopPropagation();
+            onResizeStart(e);
+          }}
+          className="absolute inset-y-0 right-0 w-2 cursor-ew-resize rounded-r-sm bg-white/30"
+        />
+      )}
+    </div>
+  );
+}
+
+interface PianoRowProps {
+  noteIndex: number;
+  notes: PianoNote[];
+  totalSteps: number;
+  currentStep: number;
+  isBlack: boolean;
+  color: string;
+  disabled: boolean;
+  onAddNote: (note: NoteShape) => void;
+  onRemoveNote: (noteId: string) => void;
+  onResizeNote: (noteId: string, duration: number) => void;
+  onVelocityChange?: (noteId: string, velocity: number) => void;
+  onHoverStep?: (step: number | null) => void;
+  cursors: PresenceCursor[];
+  isProtected?: (note: PianoNote) => boolean;
+}
+
+function PianoRow({
+  noteIndex,
+  notes,
+  totalSteps,
+  currentStep,
+  isBlack,
+  color,
+  disabled,
+  onAddNote,
+  onRemoveNote,
+  onResizeNote,
+  onVelocityChange,
+  onHoverStep,
+  cursors,
+  isProtected,
+}: PianoRowProps) {
+  const rowRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<NoteDrag | null>(null);
+
+  // Notes of the same pitch can't overlap, so stop before the next one
+  const maxEndFrom = (start: number, ignoreId?: string) =>
+    notes.reduce(
+      (max, other) =>
+        other.id !== ignoreId && other.start > start
+          ? Math.min(max, other.start - 1)
+          : max,
+      totalSteps - 1,
+    );
+
+  const beginDrag = (e: PointerEvent<HTMLElement>, next: NoteDrag) => {
+    if (disabled || e.button !== 0) return;
+    rowRef.current?.setPointerCapture(e.pointerId);
+    setDrag(next);
+  };
+
+  const handlePointerMove = (e: PointerEvent<HTMLDivElement>) => {
+    if (!rowRef.current) return;
+    const rect = rowRef.current.getBoundingClientRect();
+    const step = Math.floor(
+      ((e.clientX - rect.left) / rect.width) * totalSteps,
+    );
+    onHoverStep?.(Math.max(0, Math.min(totalSteps - 1, step)));
+    if (!drag) return;
+    const end = Math.max(drag.start, Math.min(drag.maxEnd, step));
+    if (end !== drag.end) setDrag({ ...drag, end });
+  };
+
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const duration = drag.end - drag.start + 1;
+    if (!drag.noteId) {
+      onAddNote({ noteIndex, start: drag.start, duration });
+    } else if (
+      duration !== notes.find((note) => note.id === drag.noteId)?.duration
+    ) {
+      onResizeNote(drag.noteId, duration);
+    }
+    setDrag(null);
+  };
+
+  return (
+    <div
+      ref={rowRef}
+      onPointerMove={handlePointerMove}
+      onPointerUp={handlePointerUp}
+      onPointerCancel={() => setDrag(null)}
+      onPointerLeave={onHoverStep && (() => onHoverStep(null))}
+      className="grid grid-cols-[repeat(var(--steps),1rem)] gap-0.5 sm:grid-cols-[repeat(var(--steps),1.5rem)] sm:gap-1"
+      style={{ "--steps": totalSteps } as CSSProperties}
+    >
+      {Array.from({ length: totalSteps }, (_, stepIndex) => (
+        <button
+          key={stepIndex}
+          onPointerDown={(e) =>
+            beginDrag(e, {
+              start: stepIndex,
+              end: stepIndex,
+              maxEnd: maxEndFrom(stepIndex),
+            })
+          }
+          onKeyDown={(e) => {
+            if (!disabled && (e.key === "Enter" || e.key === " ")) {
+              e.preventDefault();
+              onAddNote({ noteIndex, start: stepIndex, duration: 1 });
+            }
+          }}
+          disabled={disabled}
+          aria-label={`Add ${PIANO_NOTES[noteIndex]} at step ${stepIndex + 1}`}
+          className={`h-6 touch-none rounded-sm border transition-colors sm:h-8 ${
+            isBlack
+              ? "border-gray-700 bg-gray-800 hover:bg-gray-700"
+              : "border-gray-600 bg-gray-700 hover:bg-gray-600"
+          } ${currentStep === stepIndex ? "ring-2 ring-white ring-offset-1 ring-offset-gray-900" : ""}`}
+          style={{ gridColumn: stepIndex + 1, gridRow: 1 }}
+        />
+      ))}
+
+      {notes.map((note) => {
+        const duration =
+          drag?.noteId === note.id ? drag.end - drag.start + 1 : note.duration;
+        return (
+          <NoteBar
+            key={note.id}
+            note={note}
+            duration={duration}
+            color={color}
+            isCurrent={
+              currentStep >= note.start && currentStep < note.start + duration
+            }
+            isProtected={!!isProtected?.(note)}
+            disabled={disabled}
+            onRemove={() => onRemoveNote(note.id)}
+            onResizeStart={(e) =>
+              beginDrag(e, {
+                noteId: note.id,
+                start: note.start,
+                end: note.start + note.duration - 1,
+                maxEnd: maxEndFrom(note.start, note.id),
+              })
+            }
+            onVelocityChange={
+              onVelocityChange &&
+              ((velocity) => onVelocityChange(note.id, velocity))
+            }
+          />
+        );
+      })}
+
+      {cursors.map((cursor) => (
+        <div
+          key={cursor.playerNumber}
+          className="pointer-events-none relative z-20"
+          style={{ gridColumn: cursor.step + 1, gridRow: 1 }}
+        >
+          <PresenceMarker cursor={cursor} />
+        </div>
+      ))}
+
+      {drag && !drag.noteId && (
+        <div
+          className="pointer-events-none z-10 h-6 rounded-sm opacity-70 sm:h-8"
+          style={{
+            gridColumn: `${drag.start + 1} / span ${drag.end - drag.start + 1}`,
+            gridRow: 1,
+            backgroundColor: color,
+          }}
+        />
+      )}
+    </div>
+  );
+}
+
 export function PianoRoll({
-  pianoSteps,
+  pianoNotes,
+  totalSteps,
   currentStep,
-  onToggleNote,
-  disabled = false,
+  onAddNote,
+  onRemoveNote,
+  onResizeNote,
+  onVelocityChange,
+  onHoverCell,
+  cursors = [],
+  locked = false,
+  isProtected,
+  notesLeft = null,
+  disabled: disabledProp = false,
 }: PianoRollProps) {
+  const disabled = disabledProp || locked;
   const isBlackKey = (noteIndex: number) => BLACK_KEYS.includes(noteIndex);
 
   return (
     <div className="rounded-lg bg-gray-900 p-4">
-      <h3 className="mb-3 text-lg font-semibold text-white">Piano</h3>
+      <div className="mb-3 flex items-baseline justify-between gap-2">
+        <h3 className="text-lg font-semibold text-white">
+          Piano
+          {locked && (
+            <span className="ml-2 text-sm font-normal text-gray-400">
+              🔒 locked this turn
+            </span>
+          )}
+        </h3>
+        {notesLeft !== null && !locked && (
+          <span className="text-sm text-gray-400">
+            {notesLeft === 0
+              ? "No notes left this turn"
+              : `${notesLeft} ${notesLeft === 1 ? "note" : "notes"} left this turn`}
+          </span>
+        )}
+      </div>
       <div className="flex flex-col gap-0.5 overflow-x-auto">
-        {[...PIANO_NOTES].reverse().map((note, noteIndex) => {
+        {[...PIANO_NOTES].reverse().map((note, rowIndex) => {
+          // Highest note on top, but keep indices aligned with PIANO_NOTES
+          const noteIndex = PIANO_NOTES.length - 1 - rowIndex;
           const isBlack = isBlackKey(noteIndex);
           const color = NOTE_COLORS[noteIndex];
 
@@ -60,32 +360,28 @@ export function PianoRoll({
               >
                 {note}
               </div>
-              <div className="flex gap-0.5 sm:gap-1">
-                {Array.from({ length: 16 }, (_, stepIndex) => {
-                  const isActive = pianoSteps.get(stepIndex)?.has(noteIndex);
-                  const isCurrent = currentStep === stepIndex;
-
-                  return (
-                    <button
-                      key={stepIndex}
-                      onClick={() =>
-                        !disabled && onToggleNote(stepIndex, noteIndex)
-                      }
-                      disabled={disabled}
-                      className={`h-6 w-4 shrink-0 rounded-sm border transition-colors sm:h-8 sm:w-6 ${
-                        isActive
-                          ? "border-transparent"
-                          : isBlack
-                            ? "border-gray-700 bg-gray-800 hover:bg-gray-700"
-                            : "border-gray-600 bg-gray-700 hover:bg-gray-600"
-                      } ${isCurrent ? "ring-2 ring-white ring-offset-1 ring-offset-gray-900" : ""}`}
-                      style={{
-                        backgroundColor: isActive ? color : undefined,
-                      }}
-                    />
-                  );
-                })}
-              </div>
+              <PianoRow
+                noteIndex={noteIndex}
+                notes={pianoNotes.filter((n) => n.noteIndex === noteIndex)}
+                totalSteps={totalSteps}
+                currentStep={currentStep}
+                isBlack={isBlack}
+                color={color}
+                disabled={disabled}
+                onAddNote={onAddNote}
+                onRemoveNote={onRemoveNote}
+                onResizeNote={onResizeNote}
+                onVelocityChange={onVelocityChange}
+                onHoverStep={
+                  onHoverCell &&
+                  ((step) =>
+                    onHoverCell(
+                      step === null ? null : { row: noteIndex, step },
+                    ))
+                }
+                cursors={cursors.filter((c) => c.row === noteIndex)}
+                isProtected={isProtected}
+              />
             </div>
           );
         })}
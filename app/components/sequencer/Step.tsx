@@ -1,3 +1,8 @@
+import {
+  type PresenceCursor,
+  PresenceMarker,
+} from "~/components/multiplayer/PresenceMarker";
+import { useVelocityDrag } from "~/hooks/useVelocityDrag";
 import type { Step } from "~/types";
 
 interface StepProps {
@@ -5,6 +10,12 @@ interface StepProps {
   isCurrentStep: boolean;
   instrumentColor: string;
   onClick: () => void;
+  onVelocityChange?: (velocity: number) => void;
+  onHover?: () => void;
+  // Another player pointing at this step
+  cursor?: PresenceCursor;
+  // Placed by another player while the rules protect their notes
+  isProtected?: boolean;
   disabled?: boolean;
 }
 
@@ -13,24 +24,61 @@ export function StepComponent({
   isCurrentStep,
   instrumentColor,
   onClick,
-  disabled = false,
+  onVelocityChange,
+  onHover,
+  cursor,
+  isProtected = false,
+  disabled: disabledProp = false,
 }: StepProps) {
+  const disabled = disabledProp || isProtected;
+  // Only active steps have a velocity worth editing
+  const canEditVelocity = step.active && !disabled && !!onVelocityChange;
+  const { dragHandlers, consumeClick } = useVelocityDrag(
+    step.velocity,
+    canEditVelocity ? onVelocityChange : undefined,
+  );
+
   return (
     <button
-      onClick={onClick}
+      onClick={() => consumeClick() && onClick()}
+      {...dragHandlers}
+      onPointerEnter={onHover}
       disabled={disabled}
-      className={`relative h-10 w-10 rounded transition-colors duration-75 sm:h-12 sm:w-12 ${step.active ? "" : "bg-gray-800 hover:bg-gray-700"} ${isCurrentStep ? "ring-2 ring-white" : ""} ${!step.active && isCurrentStep ? "bg-gray-700" : ""} ${disabled ? "cursor-not-allowed opacity-50" : ""}`}
+      className={`relative h-10 w-10 touch-none rounded transition-colors duration-75 sm:h-12 sm:w-12 ${step.active ? "" : "bg-gray-800 hover:bg-gray-700"} ${isCurrentStep ? "ring-2 ring-white" : ""} ${!step.active && isCurrentStep ? "bg-gray-700" : ""} ${disabled ? "cursor-not-allowed opacity-50" : ""} ${canEditVelocity ? "cursor-ns-resize" : ""}`}
       style={{
         backgroundColor: step.active ? instrumentColor : undefined,
         opacity: step.active ? 0.4 + step.velocity * 0.6 : 1,
       }}
-      aria-label={step.active ? "Active step" : "Inactive step"}
+      aria-label={
+        step.active
+          ? `Active step, velocity ${Math.round(step.velocity * 100)}%`
+          : "Inactive step"
+      }
+      title={
+        isProtected
+          ? "Placed by another player, so only they can remove it"
+          : canEditVelocity
+            ? `Velocity ${Math.round(step.velocity * 100)}% - drag up/down to change`
+            : undefined
+      }
       onKeyDown={(e) => {
         if (e.key === "Enter" || e.key === " ") {
           e.preventDefault();
           if (!disabled) onClick();
+        } else if (
+          canEditVelocity &&
+          (e.key === "ArrowUp" || e.key === "ArrowDown")
+        ) {
+          e.preventDefault();
+          const delta = e.key === "ArrowUp" ? 0.1 : -0.1;
+          onVelocityChange(
+            Math.round(Math.max(0, Math.min(1, step.velocity + delta)) * 10) /
+              10,
+          );
         }
       }}
-    />
+    >
+      {cursor && <PresenceMarker cursor={cursor} />}
+    </button>
   );
 }
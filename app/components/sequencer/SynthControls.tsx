@@ -0,0 +1,120 @@
+import type { SynthFilterType, SynthSettings, SynthWaveform } from "~/types";
+
+interface SynthControlsProps {
+  synth: SynthSettings;
+  onChange: (synth: Partial<SynthSettings>) => void;
+}
+
+const WAVEFORMS: SynthWaveform[] = ["sine", "triangle", "sawtooth", "square"];
+const FILTER_TYPES: SynthFilterType[] = ["lowpass", "highpass", "bandpass"];
+
+const ENVELOPE_KNOBS = [
+  { key: "attack", label: "Attack", min: 0, max: 2, step: 0.01, unit: "s" },
+  { key: "decay", label: "Decay", min: 0, max: 2, step: 0.01, unit: "s" },
+  { key: "sustain", label: "Sustain", min: 0, max: 1, step: 0.01, unit: "" },
+  { key: "release", label: "Release", min: 0, max: 3, step: 0.01, unit: "s" },
+] as const;
+
+// Cutoff slider works on a log scale so the low end is usable
+const MIN_CUTOFF = 40;
+const MAX_CUTOFF = 18000;
+const toCutoff = (position: number) =>
+  Math.round(MIN_CUTOFF * (MAX_CUTOFF / MIN_CUTOFF) ** position);
+const toPosition = (cutoff: number) =>
+  Math.log(cutoff / MIN_CUTOFF) / Math.log(MAX_CUTOFF / MIN_CUTOFF);
+
+export function SynthControls({ synth, onChange }: SynthControlsProps) {
+  return (
+    <div className="flex flex-wrap items-end gap-6 rounded-lg bg-gray-800 p-4">
+      <div>
+        <div className="mb-1 text-xs tracking-wider text-gray-400 uppercase">
+          Wave
+        </div>
+        <div className="flex gap-1">
+          {WAVEFORMS.map((waveform) => (
+            <button
+              key={waveform}
+              onClick={() => onChange({ waveform })}
+              className={`rounded px-2 py-1 text-xs font-medium capitalize transition-colors ${
+                synth.waveform === waveform
+                  ? "bg-blue-600 text-white"
+                  : "bg-gray-700 text-gray-300 hover:bg-gray-600"
+              }`}
+            >
+              {waveform}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {ENVELOPE_KNOBS.map(({ key, label, min, max, step, unit }) => (
+        <label key={key} className="flex flex-col text-xs text-gray-400">
+          <span className="mb-1 tracking-wider uppercase">
+            {label} {synth[key].toFixed(2)}
+            {unit}
+          </span>
+          <input
+            type="range"
+            min={min}
+            max={max}
+            step={step}
+            value={synth[key]}
+            onChange={(e) => onChange({ [key]: Number(e.target.value) })}
+            className="w-24"
+          />
+        </label>
+      ))}
+
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">Filter</span>
+        <select
+          value={synth.filterType}
+          onChange={(e) =>
+            onChange({ filterType: e.target.value as SynthFilterType })
+          }
+          className="rounded bg-gray-700 px-2 py-1 text-white"
+        >
+          {FILTER_TYPES.map((type) => (
+            <option key={type} value={type}>
+              {type}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Cutoff {synth.filterCutoff}Hz
+        </span>
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.001}
+          value={toPosition(synth.filterCutoff)}
+          onChange={(e) =>
+            onChange({ filterCutoff: toCutoff(Number(e.target.value)) })
+          }
+          className="w-28"
+        />
+      </label>
+
+      <label className="flex flex-col text-xs text-gray-400">
+        <span className="mb-1 tracking-wider uppercase">
+          Resonance {synth.filterResonance.toFixed(1)}
+        </span>
+        <input
+          type="range"
+          min={0.1}
+          max={20}
+          step={0.1}
+          value={synth.filterResonance}
+          onChange={(e) =>
+            onChange({ filterResonance: Number(e.target.value) })
+          }
+          className="w-24"
+        />
+      </label>
+    </div>
+  );
+}
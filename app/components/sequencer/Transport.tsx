@@ -1,21 +1,47 @@
+import type { BpmRange, StepResolution } from "~/types";
+import { MAX_BPM, MIN_BPM, STEP_COUNTS } from "~/types";
+
 interface TransportProps {
   isPlaying: boolean;
   bpm: number;
+  // Tempos the room allows, MIN_BPM-MAX_BPM if not given
+  bpmRange?: BpmRange;
+  stepCount: number;
+  resolution: StepResolution;
+  currentStep: number;
   onPlay: () => void;
   onPause: () => void;
   onStop: () => void;
+  onSeek: (step: number) => void;
   onBpmChange: (bpm: number) => void;
+  onPatternLengthChange: (
+    stepCount: number,
+    resolution: StepResolution,
+  ) => void;
   onClear: () => void;
+  patternLengthDisabled?: boolean;
+  clearDisabled?: boolean;
+  // Playback still works, but nothing that changes the room
+  readOnly?: boolean;
 }
 
 export function Transport({
   isPlaying,
   bpm,
+  bpmRange = { min: MIN_BPM, max: MAX_BPM },
+  stepCount,
+  resolution,
+  currentStep,
   onPlay,
   onPause,
   onStop,
+  onSeek,
   onBpmChange,
+  onPatternLengthChange,
   onClear,
+  patternLengthDisabled = false,
+  clearDisabled = false,
+  readOnly = false,
 }: TransportProps) {
   return (
     <div className="flex items-center gap-4 rounded-lg bg-gray-800 p-4">
@@ -43,6 +69,24 @@ export function Transport({
         </button>
       </div>
 
+      <div className="flex items-center gap-2">
+        <label htmlFor="position" className="text-sm text-gray-400">
+          Step
+        </label>
+        <input
+          id="position"
+          type="range"
+          min={0}
+          max={stepCount - 1}
+          value={Math.min(currentStep, stepCount - 1)}
+          onChange={(e) => onSeek(Number(e.target.value))}
+          className="w-24"
+        />
+        <span className="w-6 text-sm text-gray-400 tabular-nums">
+          {currentStep + 1}
+        </span>
+      </div>
+
       <div className="flex items-center gap-2">
         <label htmlFor="bpm" className="text-sm text-gray-400">
           BPM
@@ -50,17 +94,58 @@ export function Transport({
         <input
           id="bpm"
           type="number"
-          min={60}
-          max={180}
+          min={bpmRange.min}
+          max={bpmRange.max}
           value={bpm}
           onChange={(e) => onBpmChange(Number(e.target.value))}
-          className="w-16 rounded bg-gray-700 px-2 py-1 text-center text-white"
+          disabled={readOnly}
+          className="w-16 rounded bg-gray-700 px-2 py-1 text-center text-white disabled:opacity-50"
         />
       </div>
 
+      <div className="flex items-center gap-2">
+        <label htmlFor="step-count" className="text-sm text-gray-400">
+          Steps
+        </label>
+        <select
+          id="step-count"
+          value={stepCount}
+          onChange={(e) =>
+            onPatternLengthChange(Number(e.target.value), resolution)
+          }
+          disabled={patternLengthDisabled || readOnly}
+          className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+        >
+          {STEP_COUNTS.map((count) => (
+            <option key={count} value={count}>
+              {count}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <label htmlFor="resolution" className="text-sm text-gray-400">
+          Grid
+        </label>
+        <select
+          id="resolution"
+          value={resolution}
+          onChange={(e) =>
+            onPatternLengthChange(stepCount, e.target.value as StepResolution)
+          }
+          disabled={patternLengthDisabled || readOnly}
+          className="rounded bg-gray-700 px-2 py-1 text-white disabled:opacity-50"
+        >
+          <option value="16th">1/16</option>
+          <option value="triplet">1/8 triplet</option>
+        </select>
+      </div>
+
       <button
         onClick={onClear}
-        className="ml-auto rounded bg-gray-600 px-4 py-2 font-medium text-white transition-colors hover:bg-gray-500 focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800"
+        disabled={clearDisabled || readOnly}
+        className="ml-auto rounded bg-gray-600 px-4 py-2 font-medium text-white transition-colors hover:bg-gray-500 focus-visible:ring-2 focus-visible:ring-gray-400 focus-visible:ring-offset-2 focus-visible:ring-offset-gray-800 disabled:opacity-50"
       >
         Clear
       </button>
@@ -1,12 +1,16 @@
-import { useEffect, useRef } from "react";
+import { useEffect, useEffectEvent, useRef } from "react";
 
-import { useSequencerStore } from "~/store/sequencer";
-import type { Instrument } from "~/types";
-import { AUDIO_CONFIG, DRUM_SAMPLES } from "~/utils/audio";
+import { getCurrentPattern, useSequencerStore } from "~/store/sequencer";
+import type { Instrument, UploadedSample } from "~/types";
+import type { Snapshot } from "~/types/socket";
+import { AUDIO_CONFIG, getKitSampleUrl } from "~/utils/audio";
+import { encodeWav, renderPattern, type WavBitDepth } from "~/utils/export";
+import { createMixerGraph, type MixerGraph, readPeak } from "~/utils/mixer";
+import { getSongBars } from "~/utils/patterns";
+import { getStepDuration, scheduleStep } from "~/utils/scheduler";
 
 interface UseAudioSequencerOptions {
   instruments: Instrument[];
-  steps?: number;
 }
 
 /**
@@ -14,36 +18,66 @@ interface UseAudioSequencerOptions {
  * Store handles state, audio engine handles Web Audio scheduling.
  */
 export const useAudioSequencer = ({
-  instruments: _instruments,
-  steps: _steps = 16,
+  instruments,
 }: UseAudioSequencerOptions) => {
   // Audio engine refs
   const ctx = useRef<AudioContext | null>(null);
   const next = useRef(0);
   const step = useRef(0);
+  const bar = useRef(0);
   const timer = useRef<number | null>(null);
   const buf = useRef<Map<string, AudioBuffer>>(new Map());
+  const mixer = useRef<MixerGraph | null>(null);
+  const meterData = useRef<Float32Array<ArrayBuffer> | null>(null);
+  const loadRequests = useRef<Map<string, number>>(new Map());
   const sched = useRef<() => void>(() => {});
   const onStepRef = useRef<((step: number) => void) | null>(null);
+  const auditionRef = useRef<Snapshot | null>(null);
 
-  // Fetch and decode an audio file into a reusable AudioBuffer
+  // Fetch and decode an audio file into a reusable AudioBuffer.
+  // A newer load for the same name supersedes any that are still in flight.
   const loadSample = async (name: string, url: string) => {
-    if (!ctx.current) return;
+    if (!ctx.current) return false;
+    const { setSampleStatus } = useSequencerStore.getState();
+    const request = (loadRequests.current.get(name) ?? 0) + 1;
+    loadRequests.current.set(name, request);
+    const isStale = () => loadRequests.current.get(name) !== request;
+
+    setSampleStatus(name, "loading");
     try {
       const res = await fetch(url);
-      if (!res.ok) {
-        console.warn(`Failed to fetch sample ${name}: ${res.status}`);
-        return;
-      }
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
       const audioData = await res.arrayBuffer();
       const buffer = await ctx.current.decodeAudioData(audioData);
+      if (isStale()) return false;
       buf.current.set(name, buffer);
-      console.log(`Loaded sample: ${name}`);
+      setSampleStatus(name, "loaded");
+      return true;
     } catch (e) {
+      if (isStale()) return false;
+      // Don't keep playing the previous sound for a row that failed
+      buf.current.delete(name);
+      setSampleStatus(name, "error");
       console.error(`Failed to load sample ${name}:`, e);
+      return false;
     }
   };
 
+  // Load every instrument's sample from a bundled kit.
+  // Rows with an uploaded sample keep it regardless of the kit.
+  const loadKit = (kitId: string) => {
+    const { customSamples } = useSequencerStore.getState();
+    return Promise.all(
+      instruments.map((instrument) =>
+        loadSample(
+          instrument.id,
+          customSamples[instrument.id]?.url ??
+            getKitSampleUrl(kitId, instrument.id),
+        ),
+      ),
+    );
+  };
+
   // Initialize the AudioContext
   const init = async () => {
     if (ctx.current) return;
@@ -52,94 +86,139 @@ export const useAudioSequencer = ({
       (window as unknown as { webkitAudioContext: typeof AudioContext })
         .webkitAudioContext;
     ctx.current = new Ctor();
+    mixer.current = createMixerGraph(ctx.current, useSequencerStore.getState());
     await ctx.current.resume();
 
-    await Promise.all([
-      loadSample("kick", DRUM_SAMPLES.kick),
-      loadSample("snare", DRUM_SAMPLES.snare),
-      loadSample("hihat", DRUM_SAMPLES.hihat),
-      loadSample("clap", DRUM_SAMPLES.clap),
-    ]);
+    await loadKit(useSequencerStore.getState().kit);
   };
 
-  // Play a pre-loaded sample buffer
-  const playSampleAt = (name: string, time: number, v = 1) => {
-    if (!ctx.current) return;
-    const b = buf.current.get(name);
-    if (!b) return;
-    const src = ctx.current.createBufferSource();
-    const gain = ctx.current.createGain();
-    src.buffer = b;
-    gain.gain.value = v;
-    src.connect(gain).connect(ctx.current.destination);
-    src.start(time);
-  };
-
-  // Synthesize a sawtooth tone
-  const playToneAt = (freq: number, dur: number, time: number, v = 1) => {
-    if (!ctx.current) return;
-    const c = ctx.current;
-    const osc = c.createOscillator();
-    const gain = c.createGain();
-    osc.frequency.value = freq;
-    osc.type = "sawtooth";
-    gain.gain.setValueAtTime(0, time);
-    gain.gain.linearRampToValueAtTime(v * 0.3, time + 0.01);
-    gain.gain.exponentialRampToValueAtTime(0.01, time + dur);
-    osc.connect(gain).connect(c.destination);
-    osc.start(time);
-    osc.stop(time + dur);
+  // Patterns to play in order: the arrangement in song mode, otherwise
+  // just the pattern being edited
+  const getBars = () => {
+    const state = useSequencerStore.getState();
+    const songBars =
+      state.playMode === "song"
+        ? getSongBars(state.patterns, state.arrangement)
+        : [];
+    return songBars.length > 0 ? songBars : [getCurrentPattern(state)];
+  };
+
+  // What the scheduler plays: the live beat, or a snapshot being auditioned
+  // with its own tempo and grid but the room's current sounds
+  const getPlayback = () => {
+    const state = useSequencerStore.getState();
+    const snapshot = auditionRef.current;
+    if (!snapshot) return { state, bars: getBars() };
+    const songBars = getSongBars(snapshot.patterns, snapshot.arrangement);
+    return {
+      state: {
+        ...state,
+        bpm: snapshot.bpm,
+        resolution: snapshot.resolution,
+        totalSteps: snapshot.stepCount,
+      },
+      bars: songBars.length > 0 ? songBars : snapshot.patterns,
+    };
   };
 
   // Lookahead scheduler - reads directly from store
   const schedule = () => {
-    if (!ctx.current) return;
+    if (!ctx.current || !mixer.current) return;
     const c = ctx.current;
-    const state = useSequencerStore.getState();
+    const { state, bars } = getPlayback();
+    // The grid on screen isn't what's playing while auditioning
+    const isLive = !auditionRef.current;
 
-    const getNotes = (stepIndex: number) =>
-      state.steps
-        .map((instrumentSteps, index) => ({
-          instrument: state.instruments[index],
-          step: instrumentSteps[stepIndex],
-          index,
-        }))
-        .filter(({ step }) => step.active)
-        .map(({ instrument, step, index }) => ({
-          instrument,
-          velocity: step.velocity,
-          index,
-        }));
+    const stepDuration = getStepDuration(state.bpm, state.resolution);
+    // The pattern may have been shortened underneath the playhead
+    step.current %= state.totalSteps;
 
     while (next.current < c.currentTime + AUDIO_CONFIG.SCHEDULE_AHEAD_TIME) {
       const currentStepVal = step.current;
-      if (onStepRef.current) onStepRef.current(currentStepVal);
-      getNotes(currentStepVal).forEach(({ instrument, velocity }) => {
-        if (buf.current.has(instrument.id)) {
-          playSampleAt(instrument.id, next.current, velocity);
-        }
-      });
-      next.current += 60 / state.bpm / 4;
-      step.current = (step.current + 1) % 16;
+      // The arrangement may have been shortened too
+      const pattern = bars[bar.current % bars.length];
+      if (isLive && onStepRef.current) onStepRef.current(currentStepVal);
+      if (
+        isLive &&
+        pattern.id !== useSequencerStore.getState().playingPatternId
+      ) {
+        useSequencerStore.setState({ playingPatternId: pattern.id });
+      }
+      scheduleStep(
+        c,
+        mixer.current,
+        buf.current,
+        { ...state, ...pattern },
+        currentStepVal,
+        next.current,
+      );
+      next.current += stepDuration;
+      step.current = (step.current + 1) % state.totalSteps;
+      if (step.current === 0) bar.current = (bar.current + 1) % bars.length;
     }
     timer.current = window.setTimeout(sched.current, AUDIO_CONFIG.LOOKAHEAD);
   };
 
+  const run = () => {
+    useSequencerStore.setState({ isPlaying: true });
+    sched.current = () => schedule();
+    sched.current();
+  };
+
   // Start playback
   const start = () => {
     const { isPlaying } = useSequencerStore.getState();
     if (!ctx.current || isPlaying) return;
     next.current = ctx.current.currentTime;
-    useSequencerStore.setState({ isPlaying: true });
-    sched.current = () => schedule();
-    sched.current();
+    run();
+  };
+
+  // Where playback is, in steps from the top of the first bar
+  const getPosition = () =>
+    bar.current * useSequencerStore.getState().totalSteps + step.current;
+
+  // Move the playhead; if playing, the next step scheduled is this one
+  const seek = (position: number) => {
+    const { totalSteps } = useSequencerStore.getState();
+    step.current = position % totalSteps;
+    bar.current = Math.floor(position / totalSteps);
+    useSequencerStore.setState({ currentStep: step.current });
+  };
+
+  // Start so that `position` sounds `delay` seconds from now. If that moment
+  // has already passed, pick up at the next step still to come.
+  const playAt = (position: number, delay: number) => {
+    if (!ctx.current) return;
+    stop();
+    const { bpm, resolution } = useSequencerStore.getState();
+    const stepDuration = getStepDuration(bpm, resolution);
+    const skipped = delay < 0 ? Math.ceil(-delay / stepDuration) : 0;
+    seek(position + skipped);
+    next.current = ctx.current.currentTime + delay + skipped * stepDuration;
+    run();
   };
 
   // Stop playback
   const stop = () => {
     if (timer.current) clearTimeout(timer.current);
     step.current = 0;
-    useSequencerStore.setState({ isPlaying: false, currentStep: 0 });
+    bar.current = 0;
+    auditionRef.current = null;
+    useSequencerStore.setState({
+      isPlaying: false,
+      currentStep: 0,
+      playingPatternId: null,
+      auditionId: null,
+    });
+  };
+
+  // Play a round snapshot from the top instead of the live beat, until
+  // stopped
+  const audition = (snapshot: Snapshot) => {
+    stop();
+    auditionRef.current = snapshot;
+    useSequencerStore.setState({ auditionId: snapshot.id });
+    start();
   };
 
   // Pause playback
@@ -157,10 +236,70 @@ export const useAudioSequencer = ({
     useSequencerStore.getState().setCurrentStep(step);
   };
 
+  // Render what Play would play offline and encode it as a WAV file
+  const exportWav = async (loops: number, bitDepth: WavBitDepth) => {
+    const state = useSequencerStore.getState();
+    const rendered = await renderPattern({
+      settings: state,
+      bars: getBars(),
+      buffers: buf.current,
+      loops,
+      totalSteps: state.totalSteps,
+    });
+    return encodeWav(rendered, bitDepth);
+  };
+
+  // Current peak level on the master bus (0 when audio isn't running)
+  const getMasterPeak = () => {
+    if (!mixer.current) return 0;
+    const { analyser } = mixer.current;
+    if (!meterData.current) {
+      meterData.current = new Float32Array(analyser.fftSize);
+    }
+    return readPeak(analyser, meterData.current);
+  };
+
   const setOnStep = (fn: (step: number) => void) => {
     onStepRef.current = fn;
   };
 
+  const handleKitChanged = useEffectEvent((kitId: string) => {
+    if (ctx.current) loadKit(kitId);
+  });
+
+  const handleCustomSamplesChanged = useEffectEvent(
+    (
+      samples: Record<string, UploadedSample>,
+      prevSamples: Record<string, UploadedSample>,
+    ) => {
+      if (!ctx.current) return;
+      Object.entries(samples).forEach(([instrumentId, sample]) => {
+        if (sample.url !== prevSamples[instrumentId]?.url) {
+          loadSample(instrumentId, sample.url);
+        }
+      });
+    },
+  );
+
+  // Push mixer, effect, tempo and sample changes from the store into audio
+  useEffect(
+    () =>
+      useSequencerStore.subscribe((state, prev) => {
+        if (
+          state.mixer !== prev.mixer ||
+          state.effects !== prev.effects ||
+          state.bpm !== prev.bpm
+        ) {
+          mixer.current?.apply(state);
+        }
+        if (state.kit !== prev.kit) handleKitChanged(state.kit);
+        if (state.customSamples !== prev.customSamples) {
+          handleCustomSamplesChanged(state.customSamples, prev.customSamples);
+        }
+      }),
+    [],
+  );
+
   // Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -172,13 +311,18 @@ export const useAudioSequencer = ({
   return {
     init,
     loadSample,
-    playSampleAt,
-    playToneAt,
+    loadKit,
     start,
+    playAt,
     stop,
     pause,
+    seek,
+    getPosition,
+    audition,
     setBpm,
     setOnStep,
     setCurrentStep,
+    exportWav,
+    getMasterPeak,
   };
 };
@@ -7,66 +7,223 @@ import {
 } from "react";
 import { io, Socket } from "socket.io-client";
 
-import type { Player, RoomState, TurnState } from "~/types/socket";
+import type {
+  ArrangementEntry,
+  ChannelEffects,
+  DelaySettings,
+  MixerChannel,
+  PianoNote,
+  ReverbSettings,
+  StepResolution,
+  SynthSettings,
+  UploadedSample,
+} from "~/types";
+import type {
+  ClientEvent,
+  ClientEventPayloads,
+  ClientToServerEvents,
+  GameSettings,
+  Presence,
+  Reaction,
+  ReactionEmoji,
+  RoomState,
+  ServerEvent,
+  ServerEventPayloads,
+  ServerToClientEvents,
+  SocketError,
+  TurnRules,
+  TurnState,
+  TurnTick,
+} from "~/types/socket";
+import { MAX_CHAT_HISTORY } from "~/types/socket";
+
+// Per tab, so a refresh keeps the seat but a second tab gets its own
+const getSessionKey = (roomId: string) => `session:${roomId}`;
+
+// Clock sync takes the best of a few pings, and repeats now and then to
+// follow drift
+const CLOCK_SYNC_SAMPLES = 5;
+const CLOCK_SYNC_INTERVAL = 30_000;
+
+// Presence goes out at most this often (ms); the latest position wins
+const PRESENCE_INTERVAL = 80;
+
+// How long a reaction floats (ms), matching the float-up animation
+const REACTION_DURATION = 2500;
+
+// Beat edits this client shows before the server has seen them. If one is
+// turned down, the room's beat is fetched again to replace it.
+const BEAT_EDITS: ReadonlySet<ClientEvent> = new Set<ClientEvent>([
+  "toggle-step",
+  "set-step-velocity",
+  "clear-pattern",
+  "set-pattern-length",
+  "add-piano-note",
+  "remove-piano-note",
+  "resize-piano-note",
+  "set-piano-velocity",
+  "add-pattern",
+  "rename-pattern",
+  "delete-pattern",
+  "set-arrangement",
+]);
+
+type Payload<E extends ServerEvent> = ServerEventPayloads[E];
+
+// What gets a new player past a locked room
+export type JoinCredentials = Pick<
+  ClientEventPayloads["join-room"],
+  "password" | "invite"
+>;
 
 export interface UseSocketOptions {
   roomId: string;
   playerName: string;
-  onStepToggled?: (data: {
-    instrumentIndex: number;
-    stepIndex: number;
-    active: boolean;
-    playerId: string;
-  }) => void;
-  onPianoNoteToggled?: (data: {
-    stepIndex: number;
-    noteIndex: number;
-    active: boolean;
+  credentials?: JoinCredentials;
+  onJoinRejected?: (data: Payload<"join-rejected">) => void;
+  onStepToggled?: (data: Payload<"step-toggled">) => void;
+  onPianoNoteAdded?: (data: Payload<"piano-note-added">) => void;
+  onPianoNoteRemoved?: (data: Payload<"piano-note-removed">) => void;
+  onPianoNoteResized?: (data: Payload<"piano-note-resized">) => void;
+  onStepVelocityChanged?: (data: Payload<"step-velocity-changed">) => void;
+  onPianoVelocityChanged?: (data: Payload<"piano-velocity-changed">) => void;
+  onBpmChanged?: (data: Payload<"bpm-changed">) => void;
+  onPatternLengthChanged?: (data: Payload<"pattern-length-changed">) => void;
+  onPatternAdded?: (data: Payload<"pattern-added">) => void;
+  onPatternRenamed?: (data: Payload<"pattern-renamed">) => void;
+  onPatternDeleted?: (data: Payload<"pattern-deleted">) => void;
+  onArrangementChanged?: (data: Payload<"arrangement-changed">) => void;
+  onKitChanged?: (data: Payload<"kit-changed">) => void;
+  onSampleUploaded?: (data: Payload<"sample-uploaded">) => void;
+  onSynthChanged?: (data: Payload<"synth-changed">) => void;
+  onMixerChannelChanged?: (data: Payload<"mixer-channel-changed">) => void;
+  onMasterVolumeChanged?: (data: Payload<"master-volume-changed">) => void;
+  onChannelEffectsChanged?: (data: Payload<"channel-effects-changed">) => void;
+  onEffectParamsChanged?: (data: Payload<"effect-params-changed">) => void;
+  onTurnStarted?: (data: Payload<"turn-started">) => void;
+  onTurnEnded?: (data: Payload<"turn-ended">) => void;
+  onGameReset?: (data: Payload<"game-reset">) => void;
+  onPatternCleared?: (data: Payload<"pattern-cleared">) => void;
+  onBeatRestored?: (data: Payload<"beat-restored">) => void;
+  onBeatSynced?: (data: Payload<"beat-synced">) => void;
+  onSnapshotRestored?: (data: Payload<"snapshot-restored">) => void;
+  onPlayerJoined?: (data: Payload<"player-joined">) => void;
+  onPlayerLeft?: (data: Payload<"player-left">) => void;
+  onPlayerConnectionChanged?: (data: {
     playerId: string;
+    connected: boolean;
   }) => void;
-  onBpmChanged?: (data: { bpm: number; playerId: string }) => void;
-  onTurnStarted?: (data: TurnState) => void;
-  onTurnEnded?: (data: TurnState) => void;
-  onGameReset?: (data: {
-    steps: boolean[][];
-    pianoSteps: [number, number[]][];
-    bpm: number;
-    turn: TurnState;
-  }) => void;
-  onPatternCleared?: () => void;
-  onPlayerJoined?: (data: { playerNumber: number; player: Player }) => void;
-  onPlayerLeft?: (data: { playerId: string }) => void;
-  onRoomFull?: () => void;
 }
 
 export const useSocket = ({
   roomId,
   playerName,
+  credentials,
+  onJoinRejected,
   onStepToggled,
-  onPianoNoteToggled,
+  onPianoNoteAdded,
+  onPianoNoteRemoved,
+  onPianoNoteResized,
+  onStepVelocityChanged,
+  onPianoVelocityChanged,
   onBpmChanged,
+  onPatternLengthChanged,
+  onPatternAdded,
+  onPatternRenamed,
+  onPatternDeleted,
+  onArrangementChanged,
+  onKitChanged,
+  onSampleUploaded,
+  onSynthChanged,
+  onMixerChannelChanged,
+  onMasterVolumeChanged,
+  onChannelEffectsChanged,
+  onEffectParamsChanged,
   onTurnStarted,
   onTurnEnded,
   onGameReset,
   onPatternCleared,
+  onBeatRestored,
+  onBeatSynced,
+  onSnapshotRestored,
   onPlayerJoined,
   onPlayerLeft,
-  onRoomFull,
+  onPlayerConnectionChanged,
 }: UseSocketOptions) => {
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<Socket<
+    ServerToClientEvents,
+    ClientToServerEvents
+  > | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [roomState, setRoomState] = useState<RoomState | null>(null);
   const [playerNumber, setPlayerNumber] = useState<number | null>(null);
+  // Server clock minus local clock, so turn deadlines and transport cues
+  // read the same everywhere
+  const [clockOffset, setClockOffset] = useState(0);
+  // The server's answer to the last request it turned down
+  const [lastError, setLastError] = useState<SocketError | null>(null);
+  // What the other players point at, keyed by player id
+  const [presence, setPresenceState] = useState<Record<string, Presence>>({});
+  const pendingPresence = useRef<Presence | null>(null);
+  const presenceTimer = useRef<number | null>(null);
+  // Reactions still floating, oldest first
+  const [reactions, setReactions] = useState<Reaction[]>([]);
+  // The last invite this player asked for
+  const [invite, setInvite] = useState<Payload<"invite-created"> | null>(null);
+
+  const setNotesAdded = useCallback((notesAdded: number) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return { ...prev, turn: { ...prev.turn, notesAdded } };
+    });
+  }, []);
+
+  // Counted the way the server counts against the turn's note budget
+  const countNoteAdded = useCallback(() => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        turn: { ...prev.turn, notesAdded: prev.turn.notesAdded + 1 },
+      };
+    });
+  }, []);
 
   const handleStepToggled = useEffectEvent(
     (data: Parameters<NonNullable<typeof onStepToggled>>[0]) => {
       onStepToggled?.(data);
+      if (data.active) countNoteAdded();
     },
   );
 
-  const handlePianoNoteToggled = useEffectEvent(
-    (data: Parameters<NonNullable<typeof onPianoNoteToggled>>[0]) => {
-      onPianoNoteToggled?.(data);
+  const handlePianoNoteAdded = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPianoNoteAdded>>[0]) => {
+      onPianoNoteAdded?.(data);
+      countNoteAdded();
+    },
+  );
+
+  const handlePianoNoteRemoved = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPianoNoteRemoved>>[0]) => {
+      onPianoNoteRemoved?.(data);
+    },
+  );
+
+  const handlePianoNoteResized = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPianoNoteResized>>[0]) => {
+      onPianoNoteResized?.(data);
+    },
+  );
+
+  const handleStepVelocityChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onStepVelocityChanged>>[0]) => {
+      onStepVelocityChanged?.(data);
+    },
+  );
+
+  const handlePianoVelocityChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPianoVelocityChanged>>[0]) => {
+      onPianoVelocityChanged?.(data);
     },
   );
 
@@ -76,13 +233,87 @@ export const useSocket = ({
     },
   );
 
-  const handleTurnStarted = useEffectEvent((data: TurnState) => {
+  const handlePatternLengthChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPatternLengthChanged>>[0]) => {
+      onPatternLengthChanged?.(data);
+    },
+  );
+
+  const handlePatternAdded = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPatternAdded>>[0]) => {
+      onPatternAdded?.(data);
+    },
+  );
+
+  const handlePatternRenamed = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPatternRenamed>>[0]) => {
+      onPatternRenamed?.(data);
+    },
+  );
+
+  const handlePatternDeleted = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPatternDeleted>>[0]) => {
+      onPatternDeleted?.(data);
+    },
+  );
+
+  const handleArrangementChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onArrangementChanged>>[0]) => {
+      onArrangementChanged?.(data);
+    },
+  );
+
+  const handleKitChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onKitChanged>>[0]) => {
+      onKitChanged?.(data);
+    },
+  );
+
+  const handleSampleUploaded = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onSampleUploaded>>[0]) => {
+      onSampleUploaded?.(data);
+    },
+  );
+
+  const handleSynthChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onSynthChanged>>[0]) => {
+      onSynthChanged?.(data);
+    },
+  );
+
+  const handleMixerChannelChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onMixerChannelChanged>>[0]) => {
+      onMixerChannelChanged?.(data);
+    },
+  );
+
+  const handleMasterVolumeChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onMasterVolumeChanged>>[0]) => {
+      onMasterVolumeChanged?.(data);
+    },
+  );
+
+  const handleChannelEffectsChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onChannelEffectsChanged>>[0]) => {
+      onChannelEffectsChanged?.(data);
+    },
+  );
+
+  const handleEffectParamsChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onEffectParamsChanged>>[0]) => {
+      onEffectParamsChanged?.(data);
+    },
+  );
+
+  // Each turn starts with nothing to undo
+  const handleTurnStarted = useEffectEvent((data: Payload<"turn-started">) => {
     onTurnStarted?.(data);
     setRoomState((prev) => {
       if (!prev) return prev;
       return {
         ...prev,
         turn: { ...prev.turn, ...data },
+        history: { canUndo: false, canRedo: false },
       };
     });
   });
@@ -94,138 +325,477 @@ export const useSocket = ({
       return {
         ...prev,
         turn: { ...prev.turn, ...data },
+        history: { canUndo: false, canRedo: false },
+      };
+    });
+  });
+
+  const handleTurnTick = useEffectEvent((data: TurnTick) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        turn: {
+          ...prev.turn,
+          timeRemaining: data.timeRemaining,
+          deadline: data.deadline,
+        },
       };
     });
   });
 
+  const handleTurnOrderChanged = useEffectEvent((data: { order: number[] }) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return { ...prev, turn: { ...prev.turn, order: data.order } };
+    });
+  });
+
+  const handleGameChanged = useEffectEvent((data: GameSettings) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return { ...prev, game: { mode: data.mode, rounds: data.rounds } };
+    });
+  });
+
+  const handleChatMessage = useEffectEvent((data: Payload<"chat-message">) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return {
+        ...prev,
+        chat: [...prev.chat, data.message].slice(-MAX_CHAT_HISTORY),
+      };
+    });
+  });
+
+  const handleJoinRejected = useEffectEvent((data: Payload<"join-rejected">) =>
+    onJoinRejected?.(data),
+  );
+
+  const handleReaction = useEffectEvent((reaction: Reaction) => {
+    setReactions((prev) => [...prev, reaction]);
+    window.setTimeout(
+      () => setReactions((prev) => prev.filter((r) => r.id !== reaction.id)),
+      REACTION_DURATION,
+    );
+  });
+
+  const handleRulesChanged = useEffectEvent((data: TurnRules) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      const { noteBudget, assignInstruments, protectNotes } = data;
+      return {
+        ...prev,
+        rules: { noteBudget, assignInstruments, protectNotes },
+      };
+    });
+  });
+
+  const handleVoteChanged = useEffectEvent((data: Payload<"vote-changed">) => {
+    setRoomState((prev) => {
+      if (!prev) return prev;
+      return { ...prev, vote: data.vote };
+    });
+  });
+
+  const handleGameFinished = useEffectEvent(
+    (data: Payload<"game-finished">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return { ...prev, turn: data.turn, results: data.results };
+      });
+    },
+  );
+
   const handleGameReset = useEffectEvent(
     (data: Parameters<NonNullable<typeof onGameReset>>[0]) => {
       onGameReset?.(data);
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          turn: data.turn,
+          history: { canUndo: false, canRedo: false },
+          snapshots: data.snapshots,
+          restoreProposal: null,
+          vote: null,
+          results: null,
+        };
+      });
     },
   );
 
-  const handlePatternCleared = useEffectEvent(() => {
-    onPatternCleared?.();
+  const handlePatternCleared = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPatternCleared>>[0]) => {
+      onPatternCleared?.(data);
+    },
+  );
+
+  const handleBeatRestored = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onBeatRestored>>[0]) => {
+      onBeatRestored?.(data);
+      setNotesAdded(data.notesAdded);
+    },
+  );
+
+  const handleBeatSynced = useEffectEvent((data: Payload<"beat-synced">) => {
+    onBeatSynced?.(data);
+    setNotesAdded(data.notesAdded);
   });
 
+  const handleSnapshotRestored = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onSnapshotRestored>>[0]) => {
+      onSnapshotRestored?.(data);
+    },
+  );
+
+  const handleSnapshotAdded = useEffectEvent(
+    (data: Payload<"snapshot-added">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return { ...prev, snapshots: [...prev.snapshots, data.snapshot] };
+      });
+    },
+  );
+
+  const handleRestoreProposalChanged = useEffectEvent(
+    (data: Payload<"restore-proposal-changed">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return { ...prev, restoreProposal: data.proposal };
+      });
+    },
+  );
+
+  const handleTransportChanged = useEffectEvent(
+    (data: Payload<"transport-changed">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          transport: {
+            isPlaying: data.isPlaying,
+            step: data.step,
+            startAt: data.startAt,
+          },
+        };
+      });
+    },
+  );
+
+  const handleHistoryChanged = useEffectEvent(
+    (data: Payload<"history-changed">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return { ...prev, history: data };
+      });
+    },
+  );
+
   const handlePlayerJoined = useEffectEvent(
     (data: Parameters<NonNullable<typeof onPlayerJoined>>[0]) => {
       onPlayerJoined?.(data);
-      if (data.player.socketId) {
-        setRoomState((prev) => {
-          if (!prev) return prev;
-          return {
-            ...prev,
-            players: [...prev.players, data.player as Player],
-          };
-        });
-      }
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: [...prev.players, data.player],
+          turn: { ...prev.turn, order: data.order },
+        };
+      });
+    },
+  );
+
+  const handlePresenceChanged = useEffectEvent(
+    (data: Payload<"presence-changed">) => {
+      setPresenceState((prev) => ({ ...prev, [data.playerId]: data.presence }));
     },
   );
 
+  const clearPresence = useEffectEvent((playerId: string) => {
+    setPresenceState((prev) => {
+      const { [playerId]: _, ...rest } = prev;
+      return rest;
+    });
+  });
+
   const handlePlayerLeft = useEffectEvent(
     (data: Parameters<NonNullable<typeof onPlayerLeft>>[0]) => {
       onPlayerLeft?.(data);
+      clearPresence(data.playerId);
       setRoomState((prev) => {
         if (!prev) return prev;
         return {
           ...prev,
           players: prev.players.filter((p) => p.id !== data.playerId),
+          turn: { ...prev.turn, order: data.order },
         };
       });
     },
   );
 
-  const handleRoomFull = useEffectEvent(() => {
-    onRoomFull?.();
-  });
+  const handlePlayerConnectionChanged = useEffectEvent(
+    (data: Parameters<NonNullable<typeof onPlayerConnectionChanged>>[0]) => {
+      onPlayerConnectionChanged?.(data);
+      if (!data.connected) clearPresence(data.playerId);
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          players: prev.players.map((p) =>
+            p.id === data.playerId ? { ...p, connected: data.connected } : p,
+          ),
+        };
+      });
+    },
+  );
+
+  const handleSpectatorJoined = useEffectEvent(
+    (data: Payload<"spectator-joined">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return { ...prev, spectators: [...prev.spectators, data.spectator] };
+      });
+    },
+  );
+
+  const handleSpectatorLeft = useEffectEvent(
+    (data: Payload<"spectator-left">) => {
+      setRoomState((prev) => {
+        if (!prev) return prev;
+        return {
+          ...prev,
+          spectators: prev.spectators.filter((s) => s.id !== data.spectatorId),
+        };
+      });
+    },
+  );
+
+  const getJoinCredentials = useEffectEvent(() => credentials);
 
   useEffect(() => {
-    const socket = io();
+    const socket: Socket<ServerToClientEvents, ClientToServerEvents> = io();
     socketRef.current = socket;
 
+    // NTP-style: the server's reading is taken as halfway through the round
+    // trip, and the shortest round trip gives the closest estimate
+    let bestRoundTrip = Infinity;
+    let pingsLeft = 0;
+    const ping = () => socket.emit("clock-ping", { clientTime: Date.now() });
+    const syncClock = () => {
+      bestRoundTrip = Infinity;
+      pingsLeft = CLOCK_SYNC_SAMPLES;
+      ping();
+    };
+    const clockSync = setInterval(syncClock, CLOCK_SYNC_INTERVAL);
+
+    socket.on("clock-pong", ({ clientTime, serverTime }) => {
+      const now = Date.now();
+      const roundTrip = now - clientTime;
+      if (roundTrip <= bestRoundTrip) {
+        bestRoundTrip = roundTrip;
+        setClockOffset(serverTime + roundTrip / 2 - now);
+      }
+      pingsLeft -= 1;
+      if (pingsLeft > 0) ping();
+    });
+
     socket.on("connect", () => {
       setIsConnected(true);
-      socket.emit("join-room", { roomId, playerName });
+      syncClock();
+      // Also runs after a dropped connection comes back, and the session
+      // token lets the server hand back the same seat
+      socket.emit("join-room", {
+        roomId,
+        playerName,
+        ...getJoinCredentials(),
+        sessionToken: sessionStorage.getItem(getSessionKey(roomId)),
+      });
     });
 
-    socket.on("disconnect", () => setIsConnected(false));
-    socket.on(
-      "joined-room",
-      (data: { playerNumber: number; room: RoomState }) => {
-        setPlayerNumber(data.playerNumber);
-        setRoomState(data.room);
-      },
-    );
-    socket.on("room-full", () => handleRoomFull());
-    socket.on("join-rejected", ({ reason }: { reason: string }) => {
-      if (reason === "name-taken") {
-        alert(
-          "This name is already taken in this room. Please use a different name.",
-        );
-        window.location.href = "/";
+    socket.on("disconnect", () => {
+      setIsConnected(false);
+      // Everyone else's pointers are unknown until the next update
+      setPresenceState({});
+    });
+    socket.on("joined-room", (data) => {
+      // Spectators get no token, they have no seat to come back to
+      if (data.sessionToken) {
+        sessionStorage.setItem(getSessionKey(roomId), data.sessionToken);
+      }
+      setPlayerNumber(data.playerNumber);
+      // A rough guess until the first ping comes back
+      if (bestRoundTrip === Infinity) {
+        setClockOffset(data.serverTime - Date.now());
       }
+      setRoomState(data.room);
     });
-    socket.on(
-      "step-toggled",
-      (data: Parameters<NonNullable<typeof onStepToggled>>[0]) =>
-        handleStepToggled(data),
+    socket.on("join-rejected", (data) => handleJoinRejected(data));
+    socket.on("error", (error) => {
+      console.warn(`Server rejected ${error.event}: ${error.code}`);
+      setLastError(error);
+      if (BEAT_EDITS.has(error.event)) {
+        socket.emit("request-beat", { roomId });
+      }
+    });
+    socket.on("step-toggled", (data) => handleStepToggled(data));
+    socket.on("piano-note-added", (data) => handlePianoNoteAdded(data));
+    socket.on("piano-note-removed", (data) => handlePianoNoteRemoved(data));
+    socket.on("piano-note-resized", (data) => handlePianoNoteResized(data));
+    socket.on("step-velocity-changed", (data) =>
+      handleStepVelocityChanged(data),
+    );
+    socket.on("piano-velocity-changed", (data) =>
+      handlePianoVelocityChanged(data),
+    );
+    socket.on("bpm-changed", (data) => handleBpmChanged(data));
+    socket.on("pattern-length-changed", (data) =>
+      handlePatternLengthChanged(data),
+    );
+    socket.on("pattern-added", (data) => handlePatternAdded(data));
+    socket.on("pattern-renamed", (data) => handlePatternRenamed(data));
+    socket.on("pattern-deleted", (data) => handlePatternDeleted(data));
+    socket.on("arrangement-changed", (data) => handleArrangementChanged(data));
+    socket.on("kit-changed", (data) => handleKitChanged(data));
+    socket.on("sample-uploaded", (data) => handleSampleUploaded(data));
+    socket.on("synth-changed", (data) => handleSynthChanged(data));
+    socket.on("mixer-channel-changed", (data) =>
+      handleMixerChannelChanged(data),
+    );
+    socket.on("master-volume-changed", (data) =>
+      handleMasterVolumeChanged(data),
     );
-    socket.on(
-      "piano-note-toggled",
-      (data: Parameters<NonNullable<typeof onPianoNoteToggled>>[0]) =>
-        handlePianoNoteToggled(data),
+    socket.on("channel-effects-changed", (data) =>
+      handleChannelEffectsChanged(data),
     );
-    socket.on(
-      "bpm-changed",
-      (data: Parameters<NonNullable<typeof onBpmChanged>>[0]) =>
-        handleBpmChanged(data),
+    socket.on("effect-params-changed", (data) =>
+      handleEffectParamsChanged(data),
     );
-    socket.on("turn-started", (data: TurnState) => handleTurnStarted(data));
-    socket.on("turn-ended", (data: TurnState) => handleTurnEnded(data));
-    socket.on(
-      "game-reset",
-      (data: Parameters<NonNullable<typeof onGameReset>>[0]) =>
-        handleGameReset(data),
+    socket.on("turn-started", (data) => handleTurnStarted(data));
+    socket.on("turn-tick", (data) => handleTurnTick(data));
+    socket.on("turn-ended", (data) => handleTurnEnded(data));
+    socket.on("turn-order-changed", (data) => handleTurnOrderChanged(data));
+    socket.on("game-changed", (data) => handleGameChanged(data));
+    socket.on("rules-changed", (data) => handleRulesChanged(data));
+    socket.on("chat-message", (data) => handleChatMessage(data));
+    socket.on("reaction", (data) => handleReaction(data));
+    socket.on("invite-created", (data) => setInvite(data));
+    socket.on("vote-changed", (data) => handleVoteChanged(data));
+    socket.on("game-finished", (data) => handleGameFinished(data));
+    socket.on("game-reset", (data) => handleGameReset(data));
+    socket.on("pattern-cleared", (data) => handlePatternCleared(data));
+    socket.on("beat-restored", (data) => handleBeatRestored(data));
+    socket.on("beat-synced", (data) => handleBeatSynced(data));
+    socket.on("history-changed", (data) => handleHistoryChanged(data));
+    socket.on("transport-changed", (data) => handleTransportChanged(data));
+    socket.on("presence-changed", (data) => handlePresenceChanged(data));
+    socket.on("snapshot-added", (data) => handleSnapshotAdded(data));
+    socket.on("restore-proposal-changed", (data) =>
+      handleRestoreProposalChanged(data),
     );
-    socket.on("pattern-cleared", () => handlePatternCleared());
+    socket.on("snapshot-restored", (data) => handleSnapshotRestored(data));
 
-    socket.on(
-      "player-joined",
-      (data: Parameters<NonNullable<typeof onPlayerJoined>>[0]) => {
-        handlePlayerJoined(data);
-      },
+    socket.on("player-joined", (data) => handlePlayerJoined(data));
+
+    socket.on("player-left", (data) => handlePlayerLeft(data));
+
+    socket.on("player-disconnected", (data) =>
+      handlePlayerConnectionChanged({ ...data, connected: false }),
     );
 
-    socket.on(
-      "player-left",
-      (data: Parameters<NonNullable<typeof onPlayerLeft>>[0]) => {
-        handlePlayerLeft(data);
-      },
+    socket.on("spectator-joined", (data) => handleSpectatorJoined(data));
+
+    socket.on("spectator-left", (data) => handleSpectatorLeft(data));
+
+    socket.on("player-reconnected", (data) =>
+      handlePlayerConnectionChanged({ ...data, connected: true }),
     );
 
     return () => {
+      clearInterval(clockSync);
+      if (presenceTimer.current !== null) {
+        clearTimeout(presenceTimer.current);
+        presenceTimer.current = null;
+      }
       socket.disconnect();
     };
   }, [roomId, playerName]);
 
+  // `active` is the step's state after the toggle
   const toggleStep = useCallback(
-    (instrumentIndex: number, stepIndex: number) => {
+    (
+      patternId: string,
+      instrumentIndex: number,
+      stepIndex: number,
+      active: boolean,
+    ) => {
+      if (active) countNoteAdded();
       socketRef.current?.emit("toggle-step", {
         roomId,
+        patternId,
         instrumentIndex,
         stepIndex,
       });
     },
+    [roomId, countNoteAdded],
+  );
+
+  const addPianoNote = useCallback(
+    (patternId: string, note: PianoNote) => {
+      countNoteAdded();
+      socketRef.current?.emit("add-piano-note", { roomId, patternId, note });
+    },
+    [roomId, countNoteAdded],
+  );
+
+  const removePianoNote = useCallback(
+    (patternId: string, noteId: string) => {
+      socketRef.current?.emit("remove-piano-note", {
+        roomId,
+        patternId,
+        noteId,
+      });
+    },
+    [roomId],
+  );
+
+  const resizePianoNote = useCallback(
+    (patternId: string, noteId: string, duration: number) => {
+      socketRef.current?.emit("resize-piano-note", {
+        roomId,
+        patternId,
+        noteId,
+        duration,
+      });
+    },
     [roomId],
   );
 
-  const togglePianoNote = useCallback(
-    (stepIndex: number, noteIndex: number) => {
-      socketRef.current?.emit("toggle-piano-note", {
+  const setStepVelocity = useCallback(
+    (
+      patternId: string,
+      instrumentIndex: number,
+      stepIndex: number,
+      velocity: number,
+    ) => {
+      socketRef.current?.emit("set-step-velocity", {
         roomId,
+        patternId,
+        instrumentIndex,
         stepIndex,
-        noteIndex,
+        velocity,
+      });
+    },
+    [roomId],
+  );
+
+  const setPianoVelocity = useCallback(
+    (patternId: string, noteId: string, velocity: number) => {
+      socketRef.current?.emit("set-piano-velocity", {
+        roomId,
+        patternId,
+        noteId,
+        velocity,
       });
     },
     [roomId],
@@ -238,6 +808,136 @@ export const useSocket = ({
     [roomId],
   );
 
+  const setPatternLength = useCallback(
+    (stepCount: number, resolution: StepResolution) => {
+      socketRef.current?.emit("set-pattern-length", {
+        roomId,
+        stepCount,
+        resolution,
+      });
+    },
+    [roomId],
+  );
+
+  // `sourceId` duplicates that pattern instead of starting empty
+  const addPattern = useCallback(
+    (patternId: string, name: string, sourceId?: string) => {
+      socketRef.current?.emit("add-pattern", {
+        roomId,
+        patternId,
+        name,
+        sourceId,
+      });
+    },
+    [roomId],
+  );
+
+  const renamePattern = useCallback(
+    (patternId: string, name: string) => {
+      socketRef.current?.emit("rename-pattern", { roomId, patternId, name });
+    },
+    [roomId],
+  );
+
+  const deletePattern = useCallback(
+    (patternId: string) => {
+      socketRef.current?.emit("delete-pattern", { roomId, patternId });
+    },
+    [roomId],
+  );
+
+  const setArrangement = useCallback(
+    (arrangement: ArrangementEntry[]) => {
+      socketRef.current?.emit("set-arrangement", { roomId, arrangement });
+    },
+    [roomId],
+  );
+
+  // Shown once the server's `turn-order-changed` comes back, since it may
+  // refuse
+  const setTurnOrder = useCallback(
+    (order: number[]) => {
+      socketRef.current?.emit("set-turn-order", { roomId, order });
+    },
+    [roomId],
+  );
+
+  const setKit = useCallback(
+    (kit: string) => {
+      socketRef.current?.emit("set-kit", { roomId, kit });
+    },
+    [roomId],
+  );
+
+  // Uploads go over HTTP, the server then tells the other clients to fetch it
+  const uploadSample = useCallback(
+    async (instrumentId: string, file: File): Promise<UploadedSample> => {
+      const res = await fetch(
+        `/api/rooms/${encodeURIComponent(roomId)}/samples/${instrumentId}`,
+        {
+          method: "POST",
+          headers: {
+            "Content-Type": file.type,
+            "X-Session-Token":
+              sessionStorage.getItem(getSessionKey(roomId)) ?? "",
+            "X-File-Name": encodeURIComponent(file.name),
+          },
+          body: file,
+        },
+      );
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error ?? "Upload failed");
+      return body.sample;
+    },
+    [roomId],
+  );
+
+  const setSynth = useCallback(
+    (synth: Partial<SynthSettings>) => {
+      socketRef.current?.emit("set-synth", { roomId, synth });
+    },
+    [roomId],
+  );
+
+  const setMixerChannel = useCallback(
+    (channelId: string, channel: Partial<MixerChannel>) => {
+      socketRef.current?.emit("set-mixer-channel", {
+        roomId,
+        channelId,
+        channel,
+      });
+    },
+    [roomId],
+  );
+
+  const setMasterVolume = useCallback(
+    (masterVolume: number) => {
+      socketRef.current?.emit("set-master-volume", { roomId, masterVolume });
+    },
+    [roomId],
+  );
+
+  const setChannelEffects = useCallback(
+    (channelId: string, effects: Partial<ChannelEffects>) => {
+      socketRef.current?.emit("set-channel-effects", {
+        roomId,
+        channelId,
+        effects,
+      });
+    },
+    [roomId],
+  );
+
+  const setEffectParams = useCallback(
+    (params: {
+      reverb?: Partial<ReverbSettings>;
+      delay?: Partial<DelaySettings>;
+    }) => {
+      socketRef.current?.emit("set-effect-params", { roomId, ...params });
+    },
+    [roomId],
+  );
+
   const startTurn = useCallback(() => {
     socketRef.current?.emit("start-turn", { roomId });
   }, [roomId]);
@@ -250,31 +950,178 @@ export const useSocket = ({
     socketRef.current?.emit("reset-game", { roomId });
   }, [roomId]);
 
-  const clearPattern = useCallback(() => {
-    socketRef.current?.emit("clear-pattern", { roomId });
+  // Shown once the server's `game-changed` comes back, since it may refuse
+  const setGame = useCallback(
+    (game: GameSettings) => {
+      socketRef.current?.emit("set-game", { roomId, ...game });
+    },
+    [roomId],
+  );
+
+  // Shown once the server's `rules-changed` comes back, since it may refuse
+  const setRules = useCallback(
+    (rules: Partial<TurnRules>) => {
+      socketRef.current?.emit("set-rules", { roomId, ...rules });
+    },
+    [roomId],
+  );
+
+  const rateTurn = useCallback(
+    (rating: number) => {
+      socketRef.current?.emit("rate-turn", { roomId, rating });
+    },
+    [roomId],
+  );
+
+  // The server answers both with the resulting beat, for everyone at once
+  const undo = useCallback(() => {
+    socketRef.current?.emit("undo", { roomId });
   }, [roomId]);
 
-  const setTurnTimeRemaining = useCallback((timeRemaining: number) => {
-    setRoomState((prev) => {
-      if (!prev) return prev;
-      return {
-        ...prev,
-        turn: { ...prev.turn, timeRemaining },
+  const redo = useCallback(() => {
+    socketRef.current?.emit("redo", { roomId });
+  }, [roomId]);
+
+  // The server answers with a cue for everyone, this player included
+  const playTransport = useCallback(
+    (step: number) => {
+      socketRef.current?.emit("transport-play", { roomId, step });
+    },
+    [roomId],
+  );
+
+  const stopTransport = useCallback(
+    (step: number) => {
+      socketRef.current?.emit("transport-stop", { roomId, step });
+    },
+    [roomId],
+  );
+
+  const seekTransport = useCallback(
+    (step: number) => {
+      socketRef.current?.emit("transport-seek", { roomId, step });
+    },
+    [roomId],
+  );
+
+  // Throttled and volatile: the first change goes out at once, later ones
+  // at most every PRESENCE_INTERVAL with only the newest kept
+  const setPresence = useCallback(
+    (next: Presence) => {
+      pendingPresence.current = next;
+      if (presenceTimer.current !== null) return;
+      const flush = () => {
+        presenceTimer.current = null;
+        const latest = pendingPresence.current;
+        if (!latest) return;
+        pendingPresence.current = null;
+        socketRef.current?.volatile.emit("set-presence", {
+          roomId,
+          ...latest,
+        });
+        presenceTimer.current = window.setTimeout(flush, PRESENCE_INTERVAL);
       };
-    });
-  }, []);
+      flush();
+    },
+    [roomId],
+  );
+
+  // The server answers with the message for everyone, this player included
+  const sendChat = useCallback(
+    (text: string) => {
+      socketRef.current?.emit("send-chat", { roomId, text });
+    },
+    [roomId],
+  );
+
+  const sendReaction = useCallback(
+    (emoji: ReactionEmoji) => {
+      socketRef.current?.emit("send-reaction", { roomId, emoji });
+    },
+    [roomId],
+  );
+
+  const createInvite = useCallback(() => {
+    socketRef.current?.emit("create-invite", { roomId });
+  }, [roomId]);
+
+  // Everyone connected has to agree before the server rolls the beat back
+  const requestRestore = useCallback(
+    (snapshotId: string) => {
+      socketRef.current?.emit("request-restore", { roomId, snapshotId });
+    },
+    [roomId],
+  );
+
+  const answerRestore = useCallback(
+    (snapshotId: string, accept: boolean) => {
+      socketRef.current?.emit("answer-restore", {
+        roomId,
+        snapshotId,
+        accept,
+      });
+    },
+    [roomId],
+  );
+
+  const clearPattern = useCallback(
+    (patternId: string) => {
+      socketRef.current?.emit("clear-pattern", { roomId, patternId });
+    },
+    [roomId],
+  );
+
+  const dismissError = useCallback(() => setLastError(null), []);
 
   return {
     isConnected,
     roomState,
     playerNumber,
+    // Joined a full room, so everything is read-only
+    isSpectator: roomState !== null && playerNumber === null,
     toggleStep,
-    togglePianoNote,
+    addPianoNote,
+    removePianoNote,
+    resizePianoNote,
+    setStepVelocity,
+    setPianoVelocity,
     setBpm,
+    setPatternLength,
+    addPattern,
+    renamePattern,
+    deletePattern,
+    setArrangement,
+    setTurnOrder,
+    setKit,
+    uploadSample,
+    setSynth,
+    setMixerChannel,
+    setMasterVolume,
+    setChannelEffects,
+    setEffectParams,
     startTurn,
     endTurn,
     resetGame,
+    setGame,
+    setRules,
+    rateTurn,
+    undo,
+    redo,
+    requestRestore,
+    answerRestore,
+    playTransport,
+    stopTransport,
+    seekTransport,
+    presence,
+    setPresence,
+    reactions,
+    sendChat,
+    sendReaction,
+    invite,
+    createInvite,
     clearPattern,
-    setTurnTimeRemaining,
+    clockOffset,
+    lastError,
+    dismissError,
   };
 };
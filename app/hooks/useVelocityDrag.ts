@@ -0,0 +1,62 @@
+import { type PointerEvent, useRef } from "react";
+
+// Vertical pixels for a full 0-1 sweep
+const DRAG_RANGE = 100;
+// Smaller movements still count as a click
+const DRAG_THRESHOLD = 4;
+
+/**
+ * Drag up/down on a grid cell to change its velocity.
+ * Returns pointer handlers for the cell plus a click guard, so releasing a
+ * drag doesn't also toggle the cell off.
+ */
+export const useVelocityDrag = (
+  velocity: number,
+  onChange?: (velocity: number) => void,
+) => {
+  const drag = useRef<{ startY: number; startVelocity: number } | null>(null);
+  const dragged = useRef(false);
+
+  const onPointerDown = (e: PointerEvent<HTMLElement>) => {
+    if (!onChange || e.button !== 0) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { startY: e.clientY, startVelocity: velocity };
+    dragged.current = false;
+  };
+
+  const onPointerMove = (e: PointerEvent<HTMLElement>) => {
+    if (!drag.current || !onChange) return;
+    const delta = drag.current.startY - e.clientY;
+    if (!dragged.current && Math.abs(delta) < DRAG_THRESHOLD) return;
+    dragged.current = true;
+
+    const next = Math.max(
+      0,
+      Math.min(1, drag.current.startVelocity + delta / DRAG_RANGE),
+    );
+    // Round so a slow drag doesn't flood the socket with tiny changes
+    const rounded = Math.round(next * 100) / 100;
+    if (rounded !== velocity) onChange(rounded);
+  };
+
+  const onPointerUp = () => {
+    drag.current = null;
+  };
+
+  // Call from onClick; false means the click ended a drag
+  const consumeClick = () => {
+    const wasDrag = dragged.current;
+    dragged.current = false;
+    return !wasDrag;
+  };
+
+  return {
+    dragHandlers: {
+      onPointerDown,
+      onPointerMove,
+      onPointerUp,
+      onPointerCancel: onPointerUp,
+    },
+    consumeClick,
+  };
+};
@@ -36,8 +36,8 @@ export default function Home() {
         <div className="text-center text-sm text-gray-500">
           <p>How it works:</p>
           <p className="mt-1">
-            Two players take 60-second turns adding to a shared beat grid. Build
-            your track round by round!
+            Two to eight players take timed turns adding to a shared beat grid.
+            Build your track round by round!
           </p>
         </div>
       </div>
@@ -1,61 +1,243 @@
-import { useCallback, useEffect, useRef, useState } from "react";
-import { useParams, useSearchParams } from "react-router";
+import {
+  useCallback,
+  useEffect,
+  useEffectEvent,
+  useRef,
+  useState,
+} from "react";
+import {
+  useLocation,
+  useNavigate,
+  useParams,
+  useSearchParams,
+} from "react-router";
 
+import { ChatPanel } from "~/components/multiplayer/ChatPanel";
+import { GameResults } from "~/components/multiplayer/GameResults";
+import { GameSetup } from "~/components/multiplayer/GameSetup";
+import { InvitePanel } from "~/components/multiplayer/InvitePanel";
+import type { JoinRejection } from "~/components/multiplayer/JoinRoomForm";
+import { PlayerList } from "~/components/multiplayer/PlayerList";
+import { PresenceArea } from "~/components/multiplayer/PresenceArea";
+import type { PresenceCursor } from "~/components/multiplayer/PresenceMarker";
+import { ReactionBar } from "~/components/multiplayer/ReactionBar";
+import { ReactionOverlay } from "~/components/multiplayer/ReactionOverlay";
+import { RoundHistory } from "~/components/multiplayer/RoundHistory";
+import { SpectatorList } from "~/components/multiplayer/SpectatorList";
 import { TurnControls } from "~/components/multiplayer/TurnControls";
+import { TurnRulesPanel } from "~/components/multiplayer/TurnRulesPanel";
 import { TurnTimer } from "~/components/multiplayer/TurnTimer";
+import { TurnVote } from "~/components/multiplayer/TurnVote";
+import { Arrangement } from "~/components/sequencer/Arrangement";
+import { EffectsPanel } from "~/components/sequencer/EffectsPanel";
+import { ExportControls } from "~/components/sequencer/ExportControls";
 import { Grid } from "~/components/sequencer/Grid";
+import { KitPicker } from "~/components/sequencer/KitPicker";
+import { Mixer } from "~/components/sequencer/Mixer";
+import { PatternList } from "~/components/sequencer/PatternList";
 import { PianoRoll } from "~/components/sequencer/PianoRoll";
+import { SynthControls } from "~/components/sequencer/SynthControls";
 import { Transport } from "~/components/sequencer/Transport";
 import { useAudioSequencer } from "~/hooks/useAudioSequencer";
-import { useSocket } from "~/hooks/useSocket";
-import { useSequencerStore } from "~/store/sequencer";
-import { DEFAULT_INSTRUMENTS } from "~/types";
+import { type JoinCredentials, useSocket } from "~/hooks/useSocket";
+import { getCurrentPattern, useSequencerStore } from "~/store/sequencer";
+import type {
+  ArrangementEntry,
+  ChannelEffects,
+  DelaySettings,
+  MixerChannel,
+  Pattern,
+  PianoNote,
+  PlayMode,
+  ReverbSettings,
+  StepResolution,
+  SynthSettings,
+  UploadedSample,
+} from "~/types";
+import {
+  DEFAULT_INSTRUMENTS,
+  DEFAULT_VELOCITY,
+  MAX_BPM,
+  MIN_BPM,
+  PIANO_CHANNEL,
+} from "~/types";
+import type {
+  BeatState,
+  Presence,
+  PresenceCell,
+  PresencePanel,
+  Snapshot,
+  TransportState,
+} from "~/types/socket";
+import { DEFAULT_TURN_DURATION } from "~/types/socket";
+import { MAX_SAMPLE_BYTES } from "~/utils/audio";
+import { downloadBlob, type WavBitDepth } from "~/utils/export";
+import {
+  createEmptyPattern,
+  createId,
+  nextPatternName,
+} from "~/utils/patterns";
+
+const isSameCell = (a: PresenceCell | null, b: PresenceCell | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.area === b.area &&
+    a.patternId === b.patternId &&
+    a.row === b.row &&
+    a.step === b.step);
 
 export default function Room() {
   const { roomId } = useParams<{ roomId: string }>();
   const [searchParams] = useSearchParams();
   const playerName = searchParams.get("player") || "Anonymous";
+  const navigate = useNavigate();
+  // Password or invite from the join form, kept out of the URL
+  const credentials = useLocation().state as JoinCredentials | null;
 
   const [audioInitialized, setAudioInitialized] = useState(false);
-  const [roomFull, setRoomFull] = useState(false);
+  const [sampleError, setSampleError] = useState<string | null>(null);
   const {
     init,
     start,
+    playAt,
     stop,
     pause,
+    seek,
+    getPosition,
+    audition,
     setBpm: setAudioBpm,
     setOnStep,
     setCurrentStep,
-  } = useAudioSequencer({ instruments: DEFAULT_INSTRUMENTS, steps: 16 });
+    exportWav,
+    getMasterPeak,
+  } = useAudioSequencer({ instruments: DEFAULT_INSTRUMENTS });
   const store = useSequencerStore;
   const isPlaying = store((s) => s.isPlaying);
+  const auditionId = store((s) => s.auditionId);
   const bpm = store((s) => s.bpm);
-  const steps = store((s) => s.steps);
+  const patterns = store((s) => s.patterns);
+  const currentPatternId = store((s) => s.currentPatternId);
+  const setCurrentPatternId = store((s) => s.setCurrentPatternId);
+  const { steps, pianoNotes } = store(getCurrentPattern);
+  const setPatternsFromServer = store((s) => s.setPatternsFromServer);
+  const arrangement = store((s) => s.arrangement);
+  const setArrangementStore = store((s) => s.setArrangement);
+  const playMode = store((s) => s.playMode);
+  const setPlayMode = store((s) => s.setPlayMode);
+  const playingPatternId = store((s) => s.playingPatternId);
   const instruments = store((s) => s.instruments);
   const currentStep = store((s) => s.currentStep);
-  const setStepsFromServer = store((s) => s.setStepsFromServer);
   const setBpmStore = store((s) => s.setBpm);
+  const totalSteps = store((s) => s.totalSteps);
+  const resolution = store((s) => s.resolution);
+  const setPatternLengthStore = store((s) => s.setPatternLength);
   const clearPatternStore = store((s) => s.clearPattern);
-  const pianoSteps = store((s) => s.pianoSteps);
-  const togglePianoNote = store((s) => s.togglePianoNote);
-  const setPianoStepsFromServer = store((s) => s.setPianoStepsFromServer);
+  const kit = store((s) => s.kit);
+  const setKitStore = store((s) => s.setKit);
+  const sampleStatus = store((s) => s.sampleStatus);
+  const customSamples = store((s) => s.customSamples);
+  const setCustomSamplesStore = store((s) => s.setCustomSamples);
+  const setCustomSampleStore = store((s) => s.setCustomSample);
+  const synth = store((s) => s.synth);
+  const setSynthStore = store((s) => s.setSynth);
+  const mixer = store((s) => s.mixer);
+  const setMixerStore = store((s) => s.setMixer);
+  const setMixerChannelStore = store((s) => s.setMixerChannel);
+  const setMasterVolumeStore = store((s) => s.setMasterVolume);
+  const effects = store((s) => s.effects);
+  const setEffectsStore = store((s) => s.setEffects);
+  const setChannelEffectsStore = store((s) => s.setChannelEffects);
+  const setEffectParamsStore = store((s) => s.setEffectParams);
 
   const onStepToggled = useCallback(
-    (data: { instrumentIndex: number; stepIndex: number; active: boolean }) =>
+    (data: {
+      patternId: string;
+      instrumentIndex: number;
+      stepIndex: number;
+      active: boolean;
+      ownerId?: string;
+    }) =>
+      store
+        .getState()
+        .editStep(
+          data.patternId,
+          data.instrumentIndex,
+          data.stepIndex,
+          (step) => ({ ...step, active: data.active, ownerId: data.ownerId }),
+        ),
+    [store],
+  );
+
+  const onPianoNoteAdded = useCallback(
+    (data: { patternId: string; note: PianoNote }) =>
+      store.getState().addPianoNote(data.patternId, data.note),
+    [store],
+  );
+
+  const onPianoNoteRemoved = useCallback(
+    (data: { patternId: string; noteId: string }) =>
+      store.getState().removePianoNote(data.patternId, data.noteId),
+    [store],
+  );
+
+  const onPianoNoteResized = useCallback(
+    (data: { patternId: string; noteId: string; duration: number }) =>
       store
         .getState()
-        .editStep(data.instrumentIndex, data.stepIndex, (step) => ({
-          ...step,
-          active: data.active,
-        })),
+        .resizePianoNote(data.patternId, data.noteId, data.duration),
     [store],
   );
 
-  const onPianoNoteToggled = useCallback(
-    (data: { stepIndex: number; noteIndex: number; active: boolean }) => {
-      store.getState().togglePianoNote(data.stepIndex, data.noteIndex);
+  const onStepVelocityChanged = useCallback(
+    (data: {
+      patternId: string;
+      instrumentIndex: number;
+      stepIndex: number;
+      velocity: number;
+    }) =>
+      store
+        .getState()
+        .setStepVelocity(
+          data.patternId,
+          data.instrumentIndex,
+          data.stepIndex,
+          data.velocity,
+        ),
+    [store],
+  );
+
+  const onPianoVelocityChanged = useCallback(
+    (data: { patternId: string; noteId: string; velocity: number }) =>
+      store
+        .getState()
+        .setPianoNoteVelocity(data.patternId, data.noteId, data.velocity),
+    [store],
+  );
+
+  const onPatternAdded = useCallback(
+    (data: { pattern: Pattern }) => store.getState().addPattern(data.pattern),
+    [store],
+  );
+
+  const onPatternRenamed = useCallback(
+    (data: { patternId: string; name: string }) =>
+      store.getState().renamePattern(data.patternId, data.name),
+    [store],
+  );
+
+  const onPatternDeleted = useCallback(
+    (data: { patternId: string; arrangement: ArrangementEntry[] }) => {
+      store.getState().deletePattern(data.patternId);
+      setArrangementStore(data.arrangement);
     },
-    [],
+    [store, setArrangementStore],
+  );
+
+  const onArrangementChanged = useCallback(
+    (data: { arrangement: ArrangementEntry[] }) =>
+      setArrangementStore(data.arrangement),
+    [setArrangementStore],
   );
 
   const onBpmChanged = useCallback(
@@ -63,103 +245,194 @@ export default function Room() {
     [setBpmStore],
   );
 
+  const onPatternLengthChanged = useCallback(
+    (data: {
+      stepCount: number;
+      resolution: StepResolution;
+      patterns: Pattern[];
+    }) => {
+      setPatternLengthStore(data.stepCount, data.resolution);
+      setPatternsFromServer(data.patterns);
+    },
+    [setPatternLengthStore, setPatternsFromServer],
+  );
+
+  const onKitChanged = useCallback(
+    (data: { kit: string }) => setKitStore(data.kit),
+    [setKitStore],
+  );
+
+  const onSampleUploaded = useCallback(
+    (data: { instrumentId: string; sample: UploadedSample }) =>
+      setCustomSampleStore(data.instrumentId, data.sample),
+    [setCustomSampleStore],
+  );
+
+  const onSynthChanged = useCallback(
+    (data: { synth: SynthSettings }) => setSynthStore(data.synth),
+    [setSynthStore],
+  );
+
+  const onMixerChannelChanged = useCallback(
+    (data: { channelId: string; channel: MixerChannel }) =>
+      setMixerChannelStore(data.channelId, data.channel),
+    [setMixerChannelStore],
+  );
+
+  const onMasterVolumeChanged = useCallback(
+    (data: { masterVolume: number }) => setMasterVolumeStore(data.masterVolume),
+    [setMasterVolumeStore],
+  );
+
+  const onChannelEffectsChanged = useCallback(
+    (data: { channelId: string; effects: ChannelEffects }) =>
+      setChannelEffectsStore(data.channelId, data.effects),
+    [setChannelEffectsStore],
+  );
+
+  const onEffectParamsChanged = useCallback(
+    (data: { reverb: ReverbSettings; delay: DelaySettings }) =>
+      setEffectParamsStore(data),
+    [setEffectParamsStore],
+  );
+
   const onGameReset = useCallback(
     (data: {
-      steps: boolean[][];
-      pianoSteps: [number, number[]][];
+      patterns: Pattern[];
+      arrangement: ArrangementEntry[];
       bpm: number;
+      synth: SynthSettings;
     }) => {
-      setStepsFromServer(data.steps);
-      setPianoStepsFromServer(new Map(data.pianoSteps));
+      setPatternsFromServer(data.patterns);
+      setArrangementStore(data.arrangement);
       setBpmStore(data.bpm);
+      setSynthStore(data.synth);
     },
-    [setStepsFromServer, setPianoStepsFromServer, setBpmStore],
+    [setPatternsFromServer, setArrangementStore, setBpmStore, setSynthStore],
   );
 
   const onPatternCleared = useCallback(
-    () => clearPatternStore(),
+    (data: { patternId: string }) => clearPatternStore(data.patternId),
     [clearPatternStore],
   );
 
-  const onRoomFull = useCallback(() => setRoomFull(true), []);
-
-  const timerRef = useRef<ReturnType<typeof setInterval> | null>(null);
-  const setTurnTimeRemainingRef = useRef<
-    ((timeRemaining: number) => void) | null
-  >(null);
-  const timeRemainingRef = useRef<number>(60);
-
-  const onTurnStarted = useCallback((data: { timeRemaining: number }) => {
-    if (timerRef.current) clearInterval(timerRef.current);
-    timeRemainingRef.current = data.timeRemaining;
-    timerRef.current = setInterval(() => {
-      const setTurnTimeRemaining = setTurnTimeRemainingRef.current;
-      if (setTurnTimeRemaining) {
-        timeRemainingRef.current -= 1;
-        setTurnTimeRemaining(timeRemainingRef.current);
-        if (timeRemainingRef.current <= 0 && timerRef.current) {
-          clearInterval(timerRef.current);
-          timerRef.current = null;
-        }
-      }
-    }, 1000);
-  }, []);
+  // Undo and redo swap in the whole beat as the server has it
+  const onBeatRestored = useCallback(
+    (data: BeatState) => {
+      setPatternLengthStore(data.stepCount, data.resolution);
+      setPatternsFromServer(data.patterns);
+      setArrangementStore(data.arrangement);
+    },
+    [setPatternLengthStore, setPatternsFromServer, setArrangementStore],
+  );
 
-  const onTurnEnded = useCallback(() => {
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
-      timerRef.current = null;
-    }
-  }, []);
+  // A restore everyone agreed to also brings back the snapshot's tempo
+  const onSnapshotRestored = useCallback(
+    (data: BeatState & { bpm: number }) => {
+      onBeatRestored(data);
+      setBpmStore(data.bpm);
+    },
+    [onBeatRestored, setBpmStore],
+  );
 
   const socket = useSocket({
     roomId: roomId || "",
     playerName,
+    credentials: credentials ?? undefined,
+    // Back to the join form, which says what went wrong
+    onJoinRejected: ({ reason }) => {
+      const rejection: JoinRejection = {
+        roomId: roomId || "",
+        playerName,
+        reason,
+        invite: credentials?.invite,
+      };
+      navigate("/", { replace: true, state: rejection });
+    },
     onStepToggled,
-    onPianoNoteToggled,
+    onPianoNoteAdded,
+    onPianoNoteRemoved,
+    onPianoNoteResized,
+    onStepVelocityChanged,
+    onPianoVelocityChanged,
     onBpmChanged,
-    onTurnStarted,
-    onTurnEnded,
+    onPatternLengthChanged,
+    onPatternAdded,
+    onPatternRenamed,
+    onPatternDeleted,
+    onArrangementChanged,
+    onKitChanged,
+    onSampleUploaded,
+    onSynthChanged,
+    onMixerChannelChanged,
+    onMasterVolumeChanged,
+    onChannelEffectsChanged,
+    onEffectParamsChanged,
     onGameReset,
     onPatternCleared,
-    onRoomFull,
+    onBeatRestored,
+    // A turned-down edit of ours is replaced by the room's beat
+    onBeatSynced: onBeatRestored,
+    onSnapshotRestored,
   });
 
-  useEffect(() => {
-    setTurnTimeRemainingRef.current = socket.setTurnTimeRemaining;
-  }, [socket.setTurnTimeRemaining]);
-
   useEffect(() => {
     setOnStep((step: number) => setCurrentStep(step));
   }, [setOnStep, setCurrentStep]);
 
   useEffect(() => {
-    if (socket.roomState?.steps) {
-      setStepsFromServer(socket.roomState.steps);
+    if (socket.roomState?.stepCount && socket.roomState.resolution) {
+      setPatternLengthStore(
+        socket.roomState.stepCount,
+        socket.roomState.resolution,
+      );
     }
-    if (socket.roomState?.pianoSteps) {
-      setPianoStepsFromServer(new Map(socket.roomState.pianoSteps));
+    if (socket.roomState?.patterns) {
+      setPatternsFromServer(socket.roomState.patterns);
+    }
+    if (socket.roomState?.arrangement) {
+      setArrangementStore(socket.roomState.arrangement);
     }
     if (socket.roomState?.bpm) {
       setBpmStore(socket.roomState.bpm);
     }
+    if (socket.roomState?.kit) {
+      setKitStore(socket.roomState.kit);
+    }
+    if (socket.roomState?.samples) {
+      setCustomSamplesStore(socket.roomState.samples);
+    }
+    if (socket.roomState?.synth) {
+      setSynthStore(socket.roomState.synth);
+    }
+    if (socket.roomState?.mixer) {
+      setMixerStore(socket.roomState.mixer);
+    }
+    if (socket.roomState?.effects) {
+      setEffectsStore(socket.roomState.effects);
+    }
   }, [
-    socket.roomState?.steps,
-    socket.roomState?.pianoSteps,
+    socket.roomState?.stepCount,
+    socket.roomState?.resolution,
+    socket.roomState?.patterns,
+    socket.roomState?.arrangement,
     socket.roomState?.bpm,
-    setStepsFromServer,
-    setPianoStepsFromServer,
+    socket.roomState?.kit,
+    socket.roomState?.samples,
+    socket.roomState?.synth,
+    socket.roomState?.mixer,
+    socket.roomState?.effects,
+    setPatternLengthStore,
+    setPatternsFromServer,
+    setArrangementStore,
     setBpmStore,
+    setKitStore,
+    setCustomSamplesStore,
+    setSynthStore,
+    setMixerStore,
+    setEffectsStore,
   ]);
 
-  useEffect(() => {
-    return () => {
-      if (timerRef.current) {
-        clearInterval(timerRef.current);
-      }
-    };
-  }, []);
-
   const initAudio = async () => {
     if (!audioInitialized) {
       await init();
@@ -167,54 +440,398 @@ export default function Room() {
     }
   };
 
+  // Start or stop local audio to match the room's shared transport
+  const applyTransport = (transport: TransportState) => {
+    if (transport.isPlaying && transport.startAt !== null) {
+      const startAt = transport.startAt - socket.clockOffset;
+      playAt(transport.step, (startAt - Date.now()) / 1000);
+    } else {
+      stop();
+      seek(transport.step);
+    }
+  };
+
+  // Browsers only let audio start after a click, so until this player has
+  // pressed Play the room plays on without them
+  const transport = socket.roomState?.transport;
+  const onTransportChanged = useEffectEvent((next: TransportState) => {
+    if (audioInitialized) applyTransport(next);
+  });
+  useEffect(() => {
+    if (transport) onTransportChanged(transport);
+  }, [transport]);
+
+  // Spectators can't move the room's transport, so they listen on their own
   const handlePlay = async () => {
     await initAudio();
-    start();
+    if (transport?.isPlaying) {
+      applyTransport(transport);
+    } else if (socket.isSpectator) {
+      start();
+    } else {
+      socket.playTransport(getPosition());
+    }
   };
 
-  const handleBpmChange = (newBpm: number) => {
+  const handlePause = () => {
+    if (socket.isSpectator) {
+      pause();
+    } else {
+      socket.stopTransport(getPosition());
+    }
+  };
+
+  const handleStop = () => {
+    if (socket.isSpectator) {
+      stop();
+    } else {
+      socket.stopTransport(0);
+    }
+  };
+
+  // Stays in the same bar of the song
+  const handleSeek = (step: number) => {
+    const position = Math.floor(getPosition() / totalSteps) * totalSteps + step;
+    if (socket.isSpectator) {
+      seek(position);
+    } else {
+      socket.seekTransport(position);
+    }
+  };
+
+  // The finished beat from the top, for the whole room at once
+  const handleListenBack = async () => {
+    await initAudio();
+    if (socket.isSpectator) {
+      seek(0);
+      start();
+    } else {
+      socket.playTransport(0);
+    }
+  };
+
+  const handleAudition = async (snapshot: Snapshot) => {
+    await initAudio();
+    audition(snapshot);
+  };
+
+  const handleExport = async (loops: number, bitDepth: WavBitDepth) => {
+    // Sample buffers are loaded on audio init, so make sure it has run
+    await initAudio();
+    const wav = await exportWav(loops, bitDepth);
+    downloadBlob(wav, `beat-${roomId}-${bpm}bpm.wav`);
+  };
+
+  const bpmRange = socket.roomState?.bpmRange ?? { min: MIN_BPM, max: MAX_BPM };
+
+  // Spectators can listen locally but the room's settings stay read-only
+  const handleBpmChange = (value: number) => {
+    if (socket.isSpectator || !Number.isFinite(value)) return;
+    const newBpm = Math.max(bpmRange.min, Math.min(bpmRange.max, value));
     setAudioBpm(newBpm);
     setBpmStore(newBpm);
     socket.setBpm(newBpm);
   };
 
+  const handlePatternLengthChange = (
+    stepCount: number,
+    newResolution: StepResolution,
+  ) => {
+    if (socket.isSpectator) return;
+    setPatternLengthStore(stepCount, newResolution);
+    socket.setPatternLength(stepCount, newResolution);
+  };
+
+  const handleKitChange = (newKit: string) => {
+    if (socket.isSpectator) return;
+    setKitStore(newKit);
+    socket.setKit(newKit);
+  };
+
+  const handleDropSample = async (instrumentIndex: number, file: File) => {
+    if (socket.isSpectator) return;
+    const instrument = instruments[instrumentIndex];
+    // The server only takes a new sound from the player whose turn it is
+    if (!isMyTurn) {
+      setSampleError("Samples can only be swapped during your turn");
+      return;
+    }
+    if (!file.type.startsWith("audio/")) {
+      setSampleError(`${file.name} is not an audio file`);
+      return;
+    }
+    if (file.size > MAX_SAMPLE_BYTES) {
+      setSampleError(`${file.name} is larger than 2MB`);
+      return;
+    }
+    try {
+      const sample = await socket.uploadSample(instrument.id, file);
+      setSampleError(null);
+      setCustomSampleStore(instrument.id, sample);
+    } catch (e) {
+      setSampleError(
+        `Couldn't upload ${file.name}: ${e instanceof Error ? e.message : e}`,
+      );
+    }
+  };
+
+  const handleSynthChange = (patch: Partial<SynthSettings>) => {
+    if (socket.isSpectator) return;
+    setSynthStore(patch);
+    socket.setSynth(patch);
+  };
+
+  const handleMixerChannelChange = (
+    channelId: string,
+    channel: Partial<MixerChannel>,
+  ) => {
+    if (socket.isSpectator) return;
+    setMixerChannelStore(channelId, channel);
+    socket.setMixerChannel(channelId, channel);
+  };
+
+  const handleMasterVolumeChange = (masterVolume: number) => {
+    if (socket.isSpectator) return;
+    setMasterVolumeStore(masterVolume);
+    socket.setMasterVolume(masterVolume);
+  };
+
+  const handleChannelEffectsChange = (
+    channelId: string,
+    channelEffects: Partial<ChannelEffects>,
+  ) => {
+    if (socket.isSpectator) return;
+    setChannelEffectsStore(channelId, channelEffects);
+    socket.setChannelEffects(channelId, channelEffects);
+  };
+
+  const handleEffectParamsChange = (params: {
+    reverb?: Partial<ReverbSettings>;
+    delay?: Partial<DelaySettings>;
+  }) => {
+    if (socket.isSpectator) return;
+    setEffectParamsStore(params);
+    socket.setEffectParams(params);
+  };
+
   const handleToggleStep = (instrumentIndex: number, stepIndex: number) => {
+    const step = steps[instrumentIndex]?.[stepIndex];
+    if (!isMyTurn || !step || (!step.active && notesLeft === 0)) return;
+    store
+      .getState()
+      .toggleStep(
+        currentPatternId,
+        instrumentIndex,
+        stepIndex,
+        myPlayerId ?? undefined,
+      );
+    socket.toggleStep(
+      currentPatternId,
+      instrumentIndex,
+      stepIndex,
+      !step.active,
+    );
+  };
+
+  const handleAddPianoNote = (
+    shape: Pick<PianoNote, "noteIndex" | "start" | "duration">,
+  ) => {
+    if (!isMyTurn || notesLeft === 0) return;
+    // Ids are made here so the note can be resized before the server echoes
+    const note: PianoNote = {
+      ...shape,
+      id: createId(),
+      velocity: DEFAULT_VELOCITY,
+    };
+    store.getState().addPianoNote(currentPatternId, note);
+    socket.addPianoNote(currentPatternId, note);
+  };
+
+  const handleRemovePianoNote = (noteId: string) => {
     if (!isMyTurn) return;
-    store.getState().toggleStep(instrumentIndex, stepIndex);
-    socket.toggleStep(instrumentIndex, stepIndex);
+    store.getState().removePianoNote(currentPatternId, noteId);
+    socket.removePianoNote(currentPatternId, noteId);
   };
 
-  const handleTogglePianoNote = (stepIndex: number, noteIndex: number) => {
+  const handleResizePianoNote = (noteId: string, duration: number) => {
     if (!isMyTurn) return;
-    store.getState().togglePianoNote(stepIndex, noteIndex);
-    socket.togglePianoNote(stepIndex, noteIndex);
+    store.getState().resizePianoNote(currentPatternId, noteId, duration);
+    socket.resizePianoNote(currentPatternId, noteId, duration);
   };
 
+  const handleStepVelocityChange = (
+    instrumentIndex: number,
+    stepIndex: number,
+    velocity: number,
+  ) => {
+    if (!isMyTurn) return;
+    store
+      .getState()
+      .setStepVelocity(currentPatternId, instrumentIndex, stepIndex, velocity);
+    socket.setStepVelocity(
+      currentPatternId,
+      instrumentIndex,
+      stepIndex,
+      velocity,
+    );
+  };
+
+  const handlePianoVelocityChange = (noteId: string, velocity: number) => {
+    if (!isMyTurn) return;
+    store.getState().setPianoNoteVelocity(currentPatternId, noteId, velocity);
+    socket.setPianoVelocity(currentPatternId, noteId, velocity);
+  };
+
+  const handleAddPattern = (sourceId?: string) => {
+    if (!isMyTurn) return;
+    const source = patterns.find((p) => p.id === sourceId);
+    const id = createId();
+    const name = nextPatternName(patterns);
+    // Duplicates copy the source's notes; the server does the same on its side
+    const pattern: Pattern = source
+      ? { ...structuredClone(source), id, name }
+      : createEmptyPattern(id, name, instruments, totalSteps);
+    store.getState().addPattern(pattern);
+    setCurrentPatternId(id);
+    socket.addPattern(id, name, source?.id);
+  };
+
+  const handleRenamePattern = (patternId: string, name: string) => {
+    if (!isMyTurn) return;
+    store.getState().renamePattern(patternId, name);
+    socket.renamePattern(patternId, name);
+  };
+
+  const handleDeletePattern = (patternId: string) => {
+    if (!isMyTurn || isWipeLocked || patterns.length <= 1) return;
+    store.getState().deletePattern(patternId);
+    socket.deletePattern(patternId);
+  };
+
+  const handleArrangementChange = (newArrangement: ArrangementEntry[]) => {
+    if (!isMyTurn) return;
+    setArrangementStore(newArrangement);
+    socket.setArrangement(newArrangement);
+  };
+
+  const handlePlayModeChange = (newPlayMode: PlayMode) => {
+    // Restart so the playhead lines up with the first bar of the new mode
+    if (isPlaying) stop();
+    setPlayMode(newPlayMode);
+  };
+
+  const currentPlayerName = socket.roomState?.players.find(
+    (p) => p.playerNumber === socket.roomState?.turn.currentPlayer,
+  )?.name;
+
   const isMyTurn =
     socket.roomState?.turn.isActive &&
     socket.roomState.turn.currentPlayer === socket.playerNumber;
 
-  const handleClearPattern = () => {
-    clearPatternStore();
-    socket.clearPattern();
+  // The running turn's limits, mirroring what the server enforces
+  const rules = socket.roomState?.rules;
+  const turn = socket.roomState?.turn;
+  const notesLeft =
+    turn?.isActive && rules?.noteBudget != null
+      ? Math.max(0, rules.noteBudget - turn.notesAdded)
+      : null;
+  const assignment = turn?.isActive ? turn.assignment : null;
+  const lockedRows = instruments.map(
+    (instrument) => assignment !== null && assignment !== instrument.id,
+  );
+  const isPianoLocked = assignment !== null && assignment !== PIANO_CHANNEL;
+  const isProtected = ({ ownerId }: { ownerId?: string }) =>
+    !!rules?.protectNotes && ownerId !== undefined && ownerId !== myPlayerId;
+  // Clearing or deleting the pattern would touch every row and every note
+  const isWipeLocked =
+    assignment !== null ||
+    steps.some((row) => row.some((step) => step.active && isProtected(step))) ||
+    pianoNotes.some(isProtected);
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) step through this turn's edits.
+  // Text fields keep their own undo.
+  const { undo, redo } = socket;
+  useEffect(() => {
+    if (!isMyTurn) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      if (
+        e.target instanceof HTMLElement &&
+        e.target.closest("input, textarea, select")
+      ) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        redo();
+      } else {
+        undo();
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  }, [isMyTurn, undo, redo]);
+
+  // Where this player is pointing, for the others. Spectators aren't shown.
+  const presence = useRef<Presence>({ panel: null, cell: null });
+  const updatePresence = (patch: Partial<Presence>) => {
+    if (socket.isSpectator || !socket.roomState) return;
+    const next = { ...presence.current, ...patch };
+    if (
+      next.panel === presence.current.panel &&
+      isSameCell(next.cell, presence.current.cell)
+    ) {
+      return;
+    }
+    presence.current = next;
+    socket.setPresence(next);
   };
 
-  if (roomFull) {
-    return (
-      <div className="flex min-h-screen items-center justify-center bg-gray-950 p-4">
-        <div className="text-center">
-          <h1 className="mb-4 text-2xl font-bold text-white">Room Full</h1>
-          <p className="mb-4 text-gray-400">This room already has 2 players.</p>
-          <a
-            href="/"
-            className="rounded bg-blue-600 px-4 py-2 text-white hover:bg-blue-700"
-          >
-            Go Home
-          </a>
-        </div>
-      </div>
-    );
-  }
+  const handleHoverCell =
+    (area: PresenceCell["area"]) =>
+    (cell: { row: number; step: number } | null) =>
+      updatePresence({
+        cell: cell && { ...cell, area, patternId: currentPatternId },
+      });
+
+  const players = socket.roomState?.players ?? [];
+
+  // Other players pointing into the pattern this player is looking at
+  const getCursors = (area: PresenceCell["area"]): PresenceCursor[] =>
+    players.flatMap((player) => {
+      const cell = socket.presence[player.id]?.cell;
+      return cell?.area === area && cell.patternId === currentPatternId
+        ? [
+            {
+              row: cell.row,
+              step: cell.step,
+              playerNumber: player.playerNumber,
+              name: player.name,
+            },
+          ]
+        : [];
+    });
+
+  const presenceArea = (panel: PresencePanel) => ({
+    viewers: players.filter((p) => socket.presence[p.id]?.panel === panel),
+    onEnter: () => updatePresence({ panel }),
+  });
+
+  const isFinished = socket.roomState?.turn.isFinished ?? false;
+  const turnDuration = socket.roomState?.turnDuration ?? DEFAULT_TURN_DURATION;
+  const myPlayerId =
+    players.find((p) => p.playerNumber === socket.playerNumber)?.id ?? null;
+
+  // Turn-gated settings wait while someone else's turn is running, and stay
+  // put once the game is over
+  const isSettingsLocked =
+    (socket.roomState?.turn.isActive && !isMyTurn) || isFinished;
+
+  const handleClearPattern = () => {
+    if (!isMyTurn || isWipeLocked) return;
+    clearPatternStore(currentPatternId);
+    socket.clearPattern(currentPatternId);
+  };
 
   return (
     <div className="min-h-screen bg-gray-950 p-4">
@@ -225,8 +842,16 @@ export default function Room() {
             <p className="text-gray-400">
               Playing as: {playerName}
               {socket.playerNumber && ` (Player ${socket.playerNumber})`}
+              {socket.isSpectator && " (Spectating)"}
               {!socket.isConnected && " - Connecting..."}
             </p>
+            {socket.roomState?.players
+              .filter((p) => !p.connected)
+              .map((p) => (
+                <p key={p.id} className="text-sm text-yellow-500">
+                  {p.name} lost connection, holding their seat...
+                </p>
+              ))}
           </div>
           <a
             href="/"
@@ -236,57 +861,313 @@ export default function Room() {
           </a>
         </div>
 
+        <SpectatorList spectators={socket.roomState?.spectators ?? []} />
+
+        <PlayerList
+          players={socket.roomState?.players ?? []}
+          order={socket.roomState?.turn.order ?? []}
+          maxPlayers={socket.roomState?.maxPlayers ?? 2}
+          currentPlayer={socket.roomState?.turn.currentPlayer ?? 1}
+          myPlayerNumber={socket.playerNumber}
+          onOrderChange={socket.setTurnOrder}
+          orderDisabled={socket.isSpectator || socket.roomState?.turn.isActive}
+        />
+
+        {!socket.isSpectator && socket.roomState && (
+          <InvitePanel
+            roomId={socket.roomState.id}
+            invite={socket.invite}
+            onCreate={socket.createInvite}
+          />
+        )}
+
         <TurnTimer
           timeRemaining={socket.roomState?.turn.timeRemaining ?? 60}
+          deadline={socket.roomState?.turn.deadline ?? null}
+          clockOffset={socket.clockOffset}
           currentPlayer={socket.roomState?.turn.currentPlayer ?? 1}
+          currentPlayerName={currentPlayerName}
           isActive={socket.roomState?.turn.isActive ?? false}
           round={socket.roomState?.turn.round ?? 1}
+          totalRounds={
+            socket.roomState && socket.roomState.game.mode !== "endless"
+              ? socket.roomState.game.rounds
+              : undefined
+          }
         />
 
-        <Transport
-          isPlaying={isPlaying}
-          bpm={bpm}
-          onPlay={handlePlay}
-          onPause={pause}
-          onStop={stop}
-          onBpmChange={handleBpmChange}
-          onClear={handleClearPattern}
-        />
+        {socket.roomState && !isFinished && (
+          <GameSetup
+            game={socket.roomState.game}
+            onChange={socket.setGame}
+            disabled={
+              socket.isSpectator ||
+              socket.roomState.turn.isActive ||
+              socket.roomState.snapshots.length > 0
+            }
+          />
+        )}
 
-        <Grid
-          instruments={instruments}
-          steps={steps}
-          currentStep={currentStep}
-          onToggleStep={handleToggleStep}
-          disabled={!isMyTurn}
-        />
+        {socket.roomState && !isFinished && (
+          <TurnRulesPanel
+            rules={socket.roomState.rules}
+            onChange={socket.setRules}
+            disabled={socket.isSpectator || socket.roomState.turn.isActive}
+          />
+        )}
 
-        <PianoRoll
-          pianoSteps={pianoSteps}
-          currentStep={currentStep}
-          onToggleNote={handleTogglePianoNote}
-          disabled={!isMyTurn}
-        />
+        {socket.roomState?.vote && (
+          <TurnVote
+            vote={socket.roomState.vote}
+            myPlayerId={myPlayerId}
+            onRate={socket.rateTurn}
+          />
+        )}
 
-        <TurnControls
-          isActive={socket.roomState?.turn.isActive ?? false}
-          isCurrentPlayer={
-            socket.roomState?.turn.currentPlayer === socket.playerNumber
-          }
-          onStart={socket.startTurn}
-          onEnd={socket.endTurn}
-          onReset={socket.resetGame}
+        {isFinished && (
+          <GameResults
+            results={socket.roomState?.results ?? null}
+            showScores={socket.roomState?.game.mode === "vote"}
+            onListenBack={handleListenBack}
+            onPlayAgain={socket.isSpectator ? undefined : socket.resetGame}
+          />
+        )}
+
+        <PresenceArea {...presenceArea("transport")}>
+          <Transport
+            isPlaying={isPlaying}
+            bpm={bpm}
+            bpmRange={bpmRange}
+            stepCount={totalSteps}
+            resolution={resolution}
+            currentStep={currentStep}
+            onPlay={handlePlay}
+            onPause={handlePause}
+            onStop={handleStop}
+            onSeek={handleSeek}
+            onBpmChange={handleBpmChange}
+            onPatternLengthChange={handlePatternLengthChange}
+            onClear={handleClearPattern}
+            patternLengthDisabled={isSettingsLocked}
+            clearDisabled={!isMyTurn || isWipeLocked}
+            readOnly={socket.isSpectator}
+          />
+        </PresenceArea>
+
+        <fieldset disabled={socket.isSpectator} className="min-w-0">
+          <KitPicker
+            kit={kit}
+            instruments={instruments}
+            sampleStatus={sampleStatus}
+            onKitChange={handleKitChange}
+          />
+        </fieldset>
+
+        {socket.lastError && (
+          <div
+            role="alert"
+            className="flex items-center justify-between rounded-lg bg-red-950 p-3 text-sm text-red-300"
+          >
+            {socket.lastError.message}
+            <button
+              onClick={socket.dismissError}
+              className="text-red-300 hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        {sampleError && (
+          <div
+            role="alert"
+            className="flex items-center justify-between rounded-lg bg-red-950 p-3 text-sm text-red-300"
+          >
+            {sampleError}
+            <button
+              onClick={() => setSampleError(null)}
+              className="text-red-300 hover:text-white"
+            >
+              Dismiss
+            </button>
+          </div>
+        )}
+
+        <PresenceArea {...presenceArea("patterns")}>
+          <PatternList
+            patterns={patterns}
+            currentPatternId={currentPatternId}
+            playingPatternId={playingPatternId}
+            onSelect={setCurrentPatternId}
+            onAdd={() => handleAddPattern()}
+            onDuplicate={handleAddPattern}
+            onRename={handleRenamePattern}
+            onDelete={handleDeletePattern}
+            deleteDisabled={isWipeLocked}
+            disabled={!isMyTurn}
+          />
+        </PresenceArea>
+
+        {!socket.isSpectator && <ReactionBar onReact={socket.sendReaction} />}
+
+        <PresenceArea {...presenceArea("grid")}>
+          <ReactionOverlay reactions={socket.reactions} players={players} />
+          <Grid
+            instruments={instruments}
+            steps={steps}
+            currentStep={currentStep}
+            onToggleStep={handleToggleStep}
+            onStepVelocityChange={handleStepVelocityChange}
+            sampleStatus={sampleStatus}
+            customSamples={customSamples}
+            onDropSample={handleDropSample}
+            onHoverCell={handleHoverCell("grid")}
+            cursors={getCursors("grid")}
+            lockedRows={lockedRows}
+            isProtected={isProtected}
+            notesLeft={notesLeft}
+            disabled={!isMyTurn}
+          />
+        </PresenceArea>
+
+        <PresenceArea {...presenceArea("piano-roll")}>
+          <PianoRoll
+            pianoNotes={pianoNotes}
+            totalSteps={totalSteps}
+            currentStep={currentStep}
+            onAddNote={handleAddPianoNote}
+            onRemoveNote={handleRemovePianoNote}
+            onResizeNote={handleResizePianoNote}
+            onVelocityChange={handlePianoVelocityChange}
+            onHoverCell={handleHoverCell("piano-roll")}
+            cursors={getCursors("piano-roll")}
+            locked={isPianoLocked}
+            isProtected={isProtected}
+            notesLeft={notesLeft}
+            disabled={!isMyTurn}
+          />
+        </PresenceArea>
+
+        <PresenceArea {...presenceArea("arrangement")}>
+          <Arrangement
+            patterns={patterns}
+            arrangement={arrangement}
+            currentPatternId={currentPatternId}
+            playMode={playMode}
+            onPlayModeChange={handlePlayModeChange}
+            onChange={handleArrangementChange}
+            disabled={!isMyTurn}
+          />
+        </PresenceArea>
+
+        <PresenceArea {...presenceArea("sound")}>
+          <fieldset disabled={socket.isSpectator} className="min-w-0 space-y-6">
+            <SynthControls synth={synth} onChange={handleSynthChange} />
+
+            <Mixer
+              instruments={instruments}
+              mixer={mixer}
+              effects={effects}
+              onChannelChange={handleMixerChannelChange}
+              onChannelEffectsChange={handleChannelEffectsChange}
+              onMasterVolumeChange={handleMasterVolumeChange}
+              getMasterPeak={getMasterPeak}
+            />
+
+            <EffectsPanel
+              effects={effects}
+              onChange={handleEffectParamsChange}
+            />
+          </fieldset>
+        </PresenceArea>
+
+        <ExportControls onExport={handleExport} />
+
+        <PresenceArea {...presenceArea("history")}>
+          <RoundHistory
+            snapshots={socket.roomState?.snapshots ?? []}
+            players={socket.roomState?.players ?? []}
+            proposal={socket.roomState?.restoreProposal ?? null}
+            myPlayerId={myPlayerId}
+            auditionId={auditionId}
+            onAudition={handleAudition}
+            onStopAudition={stop}
+            onRequestRestore={socket.requestRestore}
+            onAnswerRestore={socket.answerRestore}
+            restoreDisabled={socket.roomState?.turn.isActive}
+          />
+        </PresenceArea>
+
+        <ChatPanel
+          messages={socket.roomState?.chat ?? []}
+          onSend={socket.sendChat}
+          readOnly={socket.isSpectator}
         />
 
+        {!socket.isSpectator && (
+          <TurnControls
+            isActive={socket.roomState?.turn.isActive ?? false}
+            isFinished={isFinished}
+            isCurrentPlayer={
+              socket.roomState?.turn.currentPlayer === socket.playerNumber
+            }
+            currentPlayerName={currentPlayerName}
+            onStart={socket.startTurn}
+            onEnd={socket.endTurn}
+            onReset={socket.resetGame}
+            canUndo={socket.roomState?.history.canUndo ?? false}
+            canRedo={socket.roomState?.history.canRedo ?? false}
+            onUndo={socket.undo}
+            onRedo={socket.redo}
+          />
+        )}
+
         <div className="rounded-lg bg-gray-900 p-4 text-sm text-gray-400">
           <p className="mb-2 font-medium text-white">How to play:</p>
           <ul className="list-inside list-disc space-y-1">
             <li>Click on the drum grid to add percussion hits</li>
-            <li>Use the piano roll to add melodic notes</li>
-            <li>Press Play to hear your beat</li>
-            <li>Use Start Turn to begin your 60-second turn</li>
+            <li>
+              Use the piano roll to add melodic notes, drag across steps to hold
+              them longer
+            </li>
+            <li>Drag a note up or down to change how hard it hits</li>
+            <li>
+              Make more patterns and chain them in the song, then switch to Song
+              to play them in order
+            </li>
+            <li>Drop an audio file on a drum row to use your own sound</li>
+            <li>
+              Press Play to hear your beat; Play, Pause and Stop move everyone
+              in the room together
+            </li>
+            <li>Use Start Turn to begin your {turnDuration}-second turn</li>
             <li>Add as many notes as you can before time runs out!</li>
-            <li>Players alternate turns, building the beat together</li>
+            <li>
+              Set turn rules between turns: a note budget, one instrument per
+              turn, or keeping other players&apos; notes safe
+            </li>
+            <li>
+              Pick a game mode before the first turn: play a set number of
+              rounds, or take turns rating each other in Vote mode
+            </li>
+            <li>
+              Players take turns in the order shown, building the beat together
+            </li>
+            <li>
+              Anyone joining a full room watches and listens as a spectator
+            </li>
+            <li>
+              Share an invite link to bring a friend in, even if the room has a
+              password
+            </li>
+            <li>
+              Chat with the room, or send a quick reaction that floats over
+              everyone&apos;s grid
+            </li>
+            <li>
+              Scrub through Round History to hear how the beat grew, and go back
+              to a round if everyone agrees
+            </li>
           </ul>
         </div>
       </div>
@@ -1,133 +1,396 @@
 import { create } from "zustand";
 
-import type { Instrument, Step } from "~/types";
-import { DEFAULT_INSTRUMENTS, PIANO_NOTES } from "~/types";
+import type {
+  ArrangementEntry,
+  ChannelEffects,
+  DelaySettings,
+  EffectsState,
+  Instrument,
+  MixerChannel,
+  MixerState,
+  Pattern,
+  PianoNote,
+  PlayMode,
+  ReverbSettings,
+  SampleStatus,
+  Step,
+  StepResolution,
+  SynthSettings,
+  UploadedSample,
+} from "~/types";
+import {
+  createDefaultEffects,
+  createDefaultMixer,
+  DEFAULT_INSTRUMENTS,
+  DEFAULT_KIT,
+  DEFAULT_STEP_COUNT,
+  DEFAULT_SYNTH,
+  DEFAULT_VELOCITY,
+  MAX_BPM,
+  MIN_BPM,
+} from "~/types";
+import { createEmptyPattern, createEmptySteps } from "~/utils/patterns";
 
 interface SequencerStore {
-  steps: Step[][];
+  patterns: Pattern[];
+  // The pattern this player is looking at and editing
+  currentPatternId: string;
+  arrangement: ArrangementEntry[];
+  playMode: PlayMode;
+  // The pattern under the playhead, null while stopped
+  playingPatternId: string | null;
   currentStep: number;
   isPlaying: boolean;
+  // The round snapshot playing in place of the live beat, if any
+  auditionId: string | null;
   bpm: number;
   instruments: Instrument[];
   totalSteps: number;
-  pianoSteps: Map<number, Set<number>>;
-  setSteps: (steps: Step[][]) => void;
-  setStepsFromServer: (steps: boolean[][]) => void;
+  resolution: StepResolution;
+  kit: string;
+  sampleStatus: Record<string, SampleStatus>;
+  customSamples: Record<string, UploadedSample>;
+  synth: SynthSettings;
+  mixer: MixerState;
+  effects: EffectsState;
+  setPatternsFromServer: (patterns: Pattern[]) => void;
+  setCurrentPatternId: (patternId: string) => void;
+  addPattern: (pattern: Pattern) => void;
+  renamePattern: (patternId: string, name: string) => void;
+  deletePattern: (patternId: string) => void;
+  setArrangement: (arrangement: ArrangementEntry[]) => void;
+  setPlayMode: (playMode: PlayMode) => void;
   setCurrentStep: (step: number) => void;
   setIsPlaying: (isPlaying: boolean) => void;
   setBpm: (bpm: number) => void;
+  setPatternLength: (stepCount: number, resolution: StepResolution) => void;
   editStep: (
+    patternId: string,
     instrumentIndex: number,
     stepIndex: number,
     updater: (step: Step) => Step,
   ) => void;
-  toggleStep: (instrumentIndex: number, stepIndex: number) => void;
+  // `ownerId` is kept on the step if this switches it on
+  toggleStep: (
+    patternId: string,
+    instrumentIndex: number,
+    stepIndex: number,
+    ownerId?: string,
+  ) => void;
   setStepVelocity: (
+    patternId: string,
     instrumentIndex: number,
     stepIndex: number,
     velocity: number,
   ) => void;
-  togglePianoNote: (stepIndex: number, noteIndex: number) => void;
-  setPianoStepsFromServer: (pianoSteps: Map<number, number[]>) => void;
-  clearPattern: () => void;
+  addPianoNote: (patternId: string, note: PianoNote) => void;
+  removePianoNote: (patternId: string, noteId: string) => void;
+  resizePianoNote: (
+    patternId: string,
+    noteId: string,
+    duration: number,
+  ) => void;
+  setPianoNoteVelocity: (
+    patternId: string,
+    noteId: string,
+    velocity: number,
+  ) => void;
+  setKit: (kit: string) => void;
+  setSampleStatus: (instrumentId: string, status: SampleStatus) => void;
+  setCustomSamples: (samples: Record<string, UploadedSample>) => void;
+  setCustomSample: (instrumentId: string, sample: UploadedSample) => void;
+  setSynth: (synth: Partial<SynthSettings>) => void;
+  setMixer: (mixer: MixerState) => void;
+  setMixerChannel: (channelId: string, channel: Partial<MixerChannel>) => void;
+  setMasterVolume: (masterVolume: number) => void;
+  setEffects: (effects: EffectsState) => void;
+  setChannelEffects: (
+    channelId: string,
+    effects: Partial<ChannelEffects>,
+  ) => void;
+  setEffectParams: (params: {
+    reverb?: Partial<ReverbSettings>;
+    delay?: Partial<DelaySettings>;
+  }) => void;
+  clearPattern: (patternId: string) => void;
 }
 
-const createInitialSteps = (
-  instruments: Instrument[],
-  steps: number,
-): Step[][] => {
-  return instruments.map(() =>
-    Array.from({ length: steps }, () => ({ active: false, velocity: 0.8 })),
+// Apply `update` to one pattern, leaving the others untouched
+const updatePattern = (
+  patterns: Pattern[],
+  patternId: string,
+  update: (pattern: Pattern) => Partial<Pattern>,
+) =>
+  patterns.map((pattern) =>
+    pattern.id === patternId ? { ...pattern, ...update(pattern) } : pattern,
   );
-};
+
+const updateStep = (
+  steps: Step[][],
+  instrumentIndex: number,
+  stepIndex: number,
+  updater: (step: Step) => Step,
+) =>
+  steps.map((instrumentSteps, i) =>
+    i === instrumentIndex
+      ? instrumentSteps.map((step, j) =>
+          j === stepIndex ? updater(step) : step,
+        )
+      : instrumentSteps,
+  );
+
+const initialPattern = createEmptyPattern(
+  "A",
+  "A",
+  DEFAULT_INSTRUMENTS,
+  DEFAULT_STEP_COUNT,
+);
 
 export const useSequencerStore = create<SequencerStore>((set) => ({
-  steps: createInitialSteps(DEFAULT_INSTRUMENTS, 16),
+  patterns: [initialPattern],
+  currentPatternId: initialPattern.id,
+  arrangement: [],
+  playMode: "pattern",
+  playingPatternId: null,
   currentStep: 0,
   isPlaying: false,
+  auditionId: null,
   bpm: 120,
   instruments: DEFAULT_INSTRUMENTS,
-  totalSteps: 16,
-  pianoSteps: new Map(),
+  totalSteps: DEFAULT_STEP_COUNT,
+  resolution: "16th",
+  kit: DEFAULT_KIT,
+  sampleStatus: {},
+  customSamples: {},
+  synth: DEFAULT_SYNTH,
+  mixer: createDefaultMixer(),
+  effects: createDefaultEffects(),
 
-  setSteps: (steps) => set({ steps }),
-  setStepsFromServer: (serverSteps) =>
+  // Keeps the current selection if that pattern still exists
+  setPatternsFromServer: (patterns) =>
     set((state) => ({
-      steps: serverSteps.map((instrumentSteps, i) =>
-        instrumentSteps.map((active) => ({
-          active,
-          velocity: state.steps[i]?.[0]?.velocity ?? 0.8,
-        })),
-      ),
+      patterns,
+      currentPatternId: patterns.some((p) => p.id === state.currentPatternId)
+        ? state.currentPatternId
+        : (patterns[0]?.id ?? state.currentPatternId),
+    })),
+
+  setCurrentPatternId: (currentPatternId) => set({ currentPatternId }),
+
+  addPattern: (pattern) =>
+    set((state) =>
+      state.patterns.some((p) => p.id === pattern.id)
+        ? {}
+        : { patterns: [...state.patterns, pattern] },
+    ),
+
+  renamePattern: (patternId, name) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, () => ({ name })),
     })),
+
+  deletePattern: (patternId) =>
+    set((state) => {
+      const patterns = state.patterns.filter((p) => p.id !== patternId);
+      if (patterns.length === 0) return {};
+      return {
+        patterns,
+        arrangement: state.arrangement.filter(
+          (entry) => entry.patternId !== patternId,
+        ),
+        currentPatternId:
+          state.currentPatternId === patternId
+            ? patterns[0].id
+            : state.currentPatternId,
+      };
+    }),
+
+  setArrangement: (arrangement) => set({ arrangement }),
+  setPlayMode: (playMode) => set({ playMode }),
   setCurrentStep: (step) => set({ currentStep: step }),
   setIsPlaying: (isPlaying) => set({ isPlaying }),
-  setBpm: (bpm) => set({ bpm: Math.max(60, Math.min(180, bpm)) }),
+  setBpm: (bpm) => set({ bpm: Math.max(MIN_BPM, Math.min(MAX_BPM, bpm)) }),
 
-  editStep: (instrumentIndex, stepIndex, updater) =>
+  // Keeps existing notes where they still fit; anything past the end is
+  // dropped and held notes are shortened to end with the pattern
+  setPatternLength: (stepCount, resolution) =>
     set((state) => ({
-      steps: state.steps.map((instrumentSteps, i) =>
-        i === instrumentIndex
-          ? instrumentSteps.map((step, j) =>
-              j === stepIndex ? updater(step) : step,
-            )
-          : instrumentSteps,
-      ),
+      totalSteps: stepCount,
+      resolution,
+      patterns: state.patterns.map((pattern) => ({
+        ...pattern,
+        steps: pattern.steps.map((instrumentSteps) =>
+          Array.from(
+            { length: stepCount },
+            (_, i) =>
+              instrumentSteps[i] ?? {
+                active: false,
+                velocity: DEFAULT_VELOCITY,
+              },
+          ),
+        ),
+        pianoNotes: pattern.pianoNotes
+          .filter((note) => note.start < stepCount)
+          .map((note) => ({
+            ...note,
+            duration: Math.min(note.duration, stepCount - note.start),
+          })),
+      })),
+      currentStep: state.currentStep < stepCount ? state.currentStep : 0,
     })),
 
-  toggleStep: (instrumentIndex, stepIndex) =>
+  editStep: (patternId, instrumentIndex, stepIndex, updater) =>
     set((state) => ({
-      steps: state.steps.map((instrumentSteps, i) =>
-        i === instrumentIndex
-          ? instrumentSteps.map((step, j) =>
-              j === stepIndex ? { ...step, active: !step.active } : step,
-            )
-          : instrumentSteps,
-      ),
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        steps: updateStep(pattern.steps, instrumentIndex, stepIndex, updater),
+      })),
+    })),
+
+  toggleStep: (patternId, instrumentIndex, stepIndex, ownerId) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        steps: updateStep(
+          pattern.steps,
+          instrumentIndex,
+          stepIndex,
+          (step) => ({
+            ...step,
+            active: !step.active,
+            ownerId: step.active ? undefined : ownerId,
+          }),
+        ),
+      })),
+    })),
+
+  setStepVelocity: (patternId, instrumentIndex, stepIndex, velocity) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        steps: updateStep(
+          pattern.steps,
+          instrumentIndex,
+          stepIndex,
+          (step) => ({
+            ...step,
+            velocity: Math.max(0, Math.min(1, velocity)),
+          }),
+        ),
+      })),
     })),
 
-  setStepVelocity: (instrumentIndex, stepIndex, velocity) =>
+  clearPattern: (patternId) =>
     set((state) => ({
-      steps: state.steps.map((instrumentSteps, i) =>
-        i === instrumentIndex
-          ? instrumentSteps.map((step, j) =>
-              j === stepIndex
-                ? { ...step, velocity: Math.max(0, Math.min(1, velocity)) }
-                : step,
-            )
-          : instrumentSteps,
+      patterns: updatePattern(state.patterns, patternId, () => ({
+        steps: createEmptySteps(state.instruments, state.totalSteps),
+        pianoNotes: [],
+      })),
+    })),
+
+  addPianoNote: (patternId, note) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) =>
+        pattern.pianoNotes.some((other) => other.id === note.id)
+          ? {}
+          : { pianoNotes: [...pattern.pianoNotes, note] },
       ),
     })),
 
-  clearPattern: () =>
+  removePianoNote: (patternId, noteId) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        pianoNotes: pattern.pianoNotes.filter((note) => note.id !== noteId),
+      })),
+    })),
+
+  resizePianoNote: (patternId, noteId, duration) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        pianoNotes: pattern.pianoNotes.map((note) =>
+          note.id === noteId ? { ...note, duration } : note,
+        ),
+      })),
+    })),
+
+  setPianoNoteVelocity: (patternId, noteId, velocity) =>
+    set((state) => ({
+      patterns: updatePattern(state.patterns, patternId, (pattern) => ({
+        pianoNotes: pattern.pianoNotes.map((note) =>
+          note.id === noteId
+            ? { ...note, velocity: Math.max(0, Math.min(1, velocity)) }
+            : note,
+        ),
+      })),
+    })),
+
+  setKit: (kit) => set({ kit }),
+
+  setSampleStatus: (instrumentId, status) =>
+    set((state) => ({
+      sampleStatus: { ...state.sampleStatus, [instrumentId]: status },
+    })),
+
+  setCustomSamples: (customSamples) => set({ customSamples }),
+
+  setCustomSample: (instrumentId, sample) =>
     set((state) => ({
-      steps: createInitialSteps(state.instruments, state.totalSteps),
-      pianoSteps: new Map(),
+      customSamples: { ...state.customSamples, [instrumentId]: sample },
     })),
 
-  togglePianoNote: (stepIndex, noteIndex) =>
+  setSynth: (synth) =>
+    set((state) => ({ synth: { ...state.synth, ...synth } })),
+
+  setMixer: (mixer) => set({ mixer }),
+
+  setMixerChannel: (channelId, channel) =>
     set((state) => {
-      const newPianoSteps = new Map(state.pianoSteps);
-      const stepNotes = new Set(newPianoSteps.get(stepIndex) || []);
-      if (stepNotes.has(noteIndex)) {
-        stepNotes.delete(noteIndex);
-      } else {
-        stepNotes.add(noteIndex);
-      }
-      if (stepNotes.size === 0) {
-        newPianoSteps.delete(stepIndex);
-      } else {
-        newPianoSteps.set(stepIndex, stepNotes);
-      }
-      return { pianoSteps: newPianoSteps };
+      const current = state.mixer.channels[channelId];
+      if (!current) return {};
+      return {
+        mixer: {
+          ...state.mixer,
+          channels: {
+            ...state.mixer.channels,
+            [channelId]: { ...current, ...channel },
+          },
+        },
+      };
     }),
 
-  setPianoStepsFromServer: (pianoSteps) =>
-    set(() => {
-      const newMap = new Map<number, Set<number>>();
-      pianoSteps.forEach((noteIndices, stepIndex) => {
-        newMap.set(stepIndex, new Set(noteIndices));
-      });
-      return { pianoSteps: newMap };
+  setMasterVolume: (masterVolume) =>
+    set((state) => ({
+      mixer: {
+        ...state.mixer,
+        masterVolume: Math.max(0, Math.min(1, masterVolume)),
+      },
+    })),
+
+  setEffects: (effects) => set({ effects }),
+
+  setChannelEffects: (channelId, effects) =>
+    set((state) => {
+      const current = state.effects.channels[channelId];
+      if (!current) return {};
+      return {
+        effects: {
+          ...state.effects,
+          channels: {
+            ...state.effects.channels,
+            [channelId]: { ...current, ...effects },
+          },
+        },
+      };
     }),
+
+  setEffectParams: ({ reverb, delay }) =>
+    set((state) => ({
+      effects: {
+        ...state.effects,
+        reverb: { ...state.effects.reverb, ...reverb },
+        delay: { ...state.effects.delay, ...delay },
+      },
+    })),
 }));
+
+// The pattern shown in the editor, falling back to the first one
+export const getCurrentPattern = (state: SequencerStore): Pattern =>
+  state.patterns.find((p) => p.id === state.currentPatternId) ??
+  state.patterns[0];
@@ -1,7 +1,51 @@
-export interface Step {
-  active: boolean;
-  velocity: number; // 0-1
-}
+export type {
+  ArrangementEntry,
+  BpmRange,
+  ChannelEffects,
+  ChannelFilterType,
+  DelayDivision,
+  DelaySettings,
+  DrumKit,
+  EffectsState,
+  MixerChannel,
+  MixerState,
+  Pattern,
+  PatternSettings,
+  PianoNote,
+  ReverbSettings,
+  RoomSettings,
+  Step,
+  StepResolution,
+  SynthFilterType,
+  SynthSettings,
+  SynthWaveform,
+  UploadedSample,
+} from "../../shared/types";
+export {
+  createDefaultEffects,
+  createDefaultMixer,
+  DEFAULT_CHANNEL_EFFECTS,
+  DEFAULT_KIT,
+  DEFAULT_MAX_PLAYERS,
+  DEFAULT_MIXER_CHANNEL,
+  DEFAULT_STEP_COUNT,
+  DEFAULT_SYNTH,
+  DEFAULT_VELOCITY,
+  DRUM_KITS,
+  MAX_BPM,
+  MAX_PATTERNS,
+  MAX_PLAYERS,
+  MAX_REPEATS,
+  MIN_BPM,
+  MIN_PLAYERS,
+  PIANO_CHANNEL,
+  PIANO_NOTES,
+  STEP_COUNTS,
+  STEP_RESOLUTIONS,
+  STEPS_PER_BEAT,
+} from "../../shared/types";
+
+export type SampleStatus = "loading" | "loaded" | "error";
 
 export interface Instrument {
   id: string;
@@ -17,29 +61,5 @@ export const DEFAULT_INSTRUMENTS: Instrument[] = [
   { id: "clap", name: "Clap", color: "#eab308" },
 ];
 
-export const PIANO_NOTES = [
-  "C3",
-  "C#3",
-  "D3",
-  "D#3",
-  "E3",
-  "F3",
-  "F#3",
-  "G3",
-  "G#3",
-  "A3",
-  "A#3",
-  "B3",
-  "C4",
-  "C#4",
-  "D4",
-  "D#4",
-  "E4",
-  "F4",
-  "F#4",
-  "G4",
-  "G#4",
-  "A4",
-  "A#4",
-  "B4",
-] as const;
+// "pattern" loops the pattern being edited, "song" plays the arrangement
+export type PlayMode = "pattern" | "song";
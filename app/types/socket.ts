@@ -1,22 +1,57 @@
-export interface TurnState {
-  currentPlayer: 1 | 2;
-  timeRemaining: number;
-  isActive: boolean;
-  round: number;
-}
-
-export interface Player {
-  id: string;
-  name: string;
-  socketId: string;
-  playerNumber: 1 | 2;
-}
-
-export interface RoomState {
-  id: string;
-  steps: boolean[][];
-  pianoSteps: [number, number[]][];
-  bpm: number;
-  turn: TurnState;
-  players: Player[];
-}
+export type {
+  ClientEvent,
+  ClientEventPayloads,
+  ClientToServerEvents,
+  CreateRoomRequest,
+  ErrorCode,
+  JoinRejectedReason,
+  ServerEvent,
+  ServerEventPayloads,
+  ServerToClientEvents,
+  SocketError,
+} from "../../shared/protocol";
+export {
+  MAX_CHAT_LENGTH,
+  MAX_PASSWORD_LENGTH,
+  MAX_PLAYER_NAME_LENGTH,
+} from "../../shared/protocol";
+export type {
+  BeatState,
+  ChatMessage,
+  GameMode,
+  GameSettings,
+  HistoryState,
+  Player,
+  PlayerResult,
+  PlayerStats,
+  Presence,
+  PresenceCell,
+  PresencePanel,
+  Reaction,
+  ReactionEmoji,
+  RestoreProposal,
+  RoomState,
+  RoomSummary,
+  RoomVisibility,
+  Snapshot,
+  Spectator,
+  TransportState,
+  TurnRules,
+  TurnState,
+  TurnTick,
+  TurnVote,
+} from "../../shared/types";
+export {
+  DEFAULT_ROUNDS,
+  DEFAULT_TURN_DURATION,
+  GAME_MODES,
+  MAX_CHAT_HISTORY,
+  MAX_NOTE_BUDGET,
+  MAX_RATING,
+  MAX_ROUNDS,
+  MIN_RATING,
+  MIN_ROUNDS,
+  REACTIONS,
+  ROOM_VISIBILITIES,
+  TURN_DURATIONS,
+} from "../../shared/types";
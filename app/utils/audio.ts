@@ -6,9 +6,48 @@ export const AUDIO_CONFIG = {
   MAX_BPM: 180,
 } as const;
 
-export const DRUM_SAMPLES: Record<string, string> = {
-  kick: "https://tonejs.github.io/audio/drum-samples/CR78/kick.mp3",
-  snare: "https://tonejs.github.io/audio/drum-samples/CR78/snare.mp3",
-  hihat: "https://tonejs.github.io/audio/drum-samples/CR78/hihat.mp3",
-  clap: "https://raw.githubusercontent.com/cleary/samples-hydrogen-drums/main/h2ogmcp/HandClap.wav",
+// Kits are served from public/kits/<kit>/<instrument>.wav
+export const getKitSampleUrl = (kitId: string, instrumentId: string) =>
+  `/kits/${kitId}/${instrumentId}.wav`;
+
+// Must match the server's limit in server/socket/samples.ts
+export const MAX_SAMPLE_BYTES = 2 * 1024 * 1024;
+
+/**
+ * Schedule a one-shot sample at the given velocity.
+ * Takes a BaseAudioContext so it works for both live and offline rendering.
+ */
+export const playSampleVoice = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  buffer: AudioBuffer,
+  time: number,
+  velocity = 1,
+) => {
+  const src = ctx.createBufferSource();
+  const gain = ctx.createGain();
+  src.buffer = buffer;
+  gain.gain.value = velocity;
+  src.connect(gain).connect(destination);
+  src.start(time);
+};
+
+// Time constant for smoothing live parameter moves, avoids zipper noise
+const PARAM_SMOOTHING = 0.01;
+
+/**
+ * Set an AudioParam either immediately (graph setup, offline renders)
+ * or with a short glide (live control changes).
+ */
+export const setParamValue = (
+  ctx: BaseAudioContext,
+  param: AudioParam,
+  value: number,
+  smooth: boolean,
+) => {
+  if (smooth) {
+    param.setTargetAtTime(value, ctx.currentTime, PARAM_SMOOTHING);
+  } else {
+    param.value = value;
+  }
 };
@@ -0,0 +1,85 @@
+import { setParamValue } from "./audio";
+
+import type { DelayDivision, EffectsState } from "~/types";
+
+// Delay division lengths in beats
+export const DELAY_DIVISIONS: Record<DelayDivision, number> = {
+  "1/4": 1,
+  "1/8": 0.5,
+  "1/8d": 0.75,
+  "1/16": 0.25,
+};
+
+// Long enough for a quarter note at the slowest BPM
+const MAX_DELAY_TIME = 2;
+
+export const getDelayTime = (division: DelayDivision, bpm: number) =>
+  (60 / bpm) * DELAY_DIVISIONS[division];
+
+/**
+ * Generate a stereo impulse response of decaying noise for the reverb.
+ */
+export const createImpulseResponse = (
+  ctx: BaseAudioContext,
+  decay: number,
+): AudioBuffer => {
+  const length = Math.max(1, Math.floor(ctx.sampleRate * decay));
+  const impulse = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let channel = 0; channel < impulse.numberOfChannels; channel++) {
+    const data = impulse.getChannelData(channel);
+    for (let i = 0; i < length; i++) {
+      data[i] = (Math.random() * 2 - 1) * (1 - i / length) ** 3;
+    }
+  }
+  return impulse;
+};
+
+export interface EffectBuses {
+  reverbInput: AudioNode;
+  delayInput: AudioNode;
+  apply: (effects: EffectsState, bpm: number, smooth: boolean) => void;
+}
+
+/**
+ * Shared send buses: a convolution reverb and a tempo-synced feedback delay,
+ * both returning into `output` (normally the master bus).
+ */
+export const createEffectBuses = (
+  ctx: BaseAudioContext,
+  output: AudioNode,
+): EffectBuses => {
+  const reverbInput = ctx.createGain();
+  const convolver = ctx.createConvolver();
+  const reverbReturn = ctx.createGain();
+  reverbInput.connect(convolver).connect(reverbReturn).connect(output);
+
+  const delayInput = ctx.createGain();
+  const delay = ctx.createDelay(MAX_DELAY_TIME);
+  const feedback = ctx.createGain();
+  const delayReturn = ctx.createGain();
+  delayInput.connect(delay).connect(delayReturn).connect(output);
+  delay.connect(feedback).connect(delay);
+
+  // Regenerating the impulse is expensive, only do it when decay changes
+  let impulseDecay: number | null = null;
+
+  return {
+    reverbInput,
+    delayInput,
+    apply: (effects, bpm, smooth) => {
+      if (effects.reverb.decay !== impulseDecay) {
+        impulseDecay = effects.reverb.decay;
+        convolver.buffer = createImpulseResponse(ctx, impulseDecay);
+      }
+      setParamValue(ctx, reverbReturn.gain, effects.reverb.returnLevel, smooth);
+      setParamValue(
+        ctx,
+        delay.delayTime,
+        Math.min(MAX_DELAY_TIME, getDelayTime(effects.delay.division, bpm)),
+        smooth,
+      );
+      setParamValue(ctx, feedback.gain, effects.delay.feedback, smooth);
+      setParamValue(ctx, delayReturn.gain, effects.delay.returnLevel, smooth);
+    },
+  };
+};
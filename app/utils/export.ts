@@ -0,0 +1,134 @@
+import { createMixerGraph } from "./mixer";
+import {
+  getStepDuration,
+  type PatternSnapshot,
+  scheduleStep,
+} from "./scheduler";
+
+export type WavBitDepth = 16 | 24;
+
+export const EXPORT_CONFIG = {
+  SAMPLE_RATE: 44100,
+  CHANNELS: 2,
+  // Minimum time after the last loop so releases and effect tails ring out
+  TAIL_SECONDS: 2,
+  LOOP_OPTIONS: [1, 2, 4, 8],
+} as const;
+
+type Bar = Pick<PatternSnapshot, "steps" | "pianoNotes">;
+
+interface RenderOptions {
+  settings: Omit<PatternSnapshot, keyof Bar>;
+  // Patterns in play order, one per bar
+  bars: Bar[];
+  buffers: Map<string, AudioBuffer>;
+  loops: number;
+  totalSteps: number;
+}
+
+/**
+ * Render the bars `loops` times through an OfflineAudioContext.
+ */
+export const renderPattern = async ({
+  settings,
+  bars,
+  buffers,
+  loops,
+  totalSteps,
+}: RenderOptions): Promise<AudioBuffer> => {
+  const stepDuration = getStepDuration(settings.bpm, settings.resolution);
+  const stepCount = loops * bars.length * totalSteps;
+  const length = Math.ceil(
+    (stepCount * stepDuration +
+      Math.max(EXPORT_CONFIG.TAIL_SECONDS, settings.effects.reverb.decay)) *
+      EXPORT_CONFIG.SAMPLE_RATE,
+  );
+  const ctx = new OfflineAudioContext(
+    EXPORT_CONFIG.CHANNELS,
+    length,
+    EXPORT_CONFIG.SAMPLE_RATE,
+  );
+  const mixer = createMixerGraph(ctx, settings);
+
+  for (let i = 0; i < stepCount; i++) {
+    const bar = bars[Math.floor(i / totalSteps) % bars.length];
+    scheduleStep(
+      ctx,
+      mixer,
+      buffers,
+      { ...settings, ...bar },
+      i % totalSteps,
+      i * stepDuration,
+    );
+  }
+
+  return ctx.startRendering();
+};
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+};
+
+/**
+ * Encode an AudioBuffer as an interleaved PCM WAV file.
+ */
+export const encodeWav = (buffer: AudioBuffer, bitDepth: WavBitDepth): Blob => {
+  const { numberOfChannels, sampleRate, length } = buffer;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numberOfChannels * bytesPerSample;
+  const dataSize = length * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  writeString(view, 0, "RIFF");
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, "WAVE");
+  writeString(view, 12, "fmt ");
+  view.setUint32(16, 16, true); // fmt chunk size
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numberOfChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+  writeString(view, 36, "data");
+  view.setUint32(40, dataSize, true);
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i),
+  );
+  const maxValue = 2 ** (bitDepth - 1) - 1;
+  let offset = 44;
+
+  for (let i = 0; i < length; i++) {
+    for (const channel of channels) {
+      const sample = Math.round(
+        Math.max(-1, Math.min(1, channel[i])) * maxValue,
+      );
+      if (bitDepth === 16) {
+        view.setInt16(offset, sample, true);
+      } else {
+        view.setUint8(offset, sample & 0xff);
+        view.setUint8(offset + 1, (sample >> 8) & 0xff);
+        view.setUint8(offset + 2, (sample >> 16) & 0xff);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" });
+};
+
+/**
+ * Trigger a browser download for a generated file.
+ */
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
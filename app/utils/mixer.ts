@@ -0,0 +1,122 @@
+import { setParamValue } from "./audio";
+import { createEffectBuses } from "./effects";
+
+import type { EffectsState, MixerChannel, MixerState } from "~/types";
+
+interface ChannelNodes {
+  filter: BiquadFilterNode;
+  gain: GainNode;
+  panner: StereoPannerNode;
+  reverbSend: GainNode;
+  delaySend: GainNode;
+}
+
+/**
+ * Everything that shapes the mix: faders, effects and the tempo the
+ * delay syncs to.
+ */
+export interface MixSettings {
+  mixer: MixerState;
+  effects: EffectsState;
+  bpm: number;
+}
+
+export interface MixerGraph {
+  /** Node a voice should connect to for the given channel id. */
+  input: (channelId: string) => AudioNode;
+  /** Post-fader master bus tap, used for metering. */
+  analyser: AnalyserNode;
+  apply: (settings: MixSettings) => void;
+}
+
+/**
+ * Effective gain of a channel once mute and solo are taken into account.
+ * Any soloed channel silences every channel that isn't soloed.
+ */
+export const getChannelGain = (
+  channel: MixerChannel,
+  anySolo: boolean,
+): number => {
+  if (channel.mute) return 0;
+  if (anySolo && !channel.solo) return 0;
+  return channel.volume;
+};
+
+/**
+ * Build channel strips -> master bus -> destination on any audio context.
+ * Each strip is filter -> fader -> pan, with post-fader sends into the
+ * shared reverb and delay buses. Channels are created for every id in
+ * `mixer.channels`; unknown ids fall back to the master bus so nothing is
+ * ever dropped silently.
+ */
+export const createMixerGraph = (
+  ctx: BaseAudioContext,
+  settings: MixSettings,
+): MixerGraph => {
+  const master = ctx.createGain();
+  const analyser = ctx.createAnalyser();
+  analyser.fftSize = 1024;
+  master.connect(analyser).connect(ctx.destination);
+
+  const buses = createEffectBuses(ctx, master);
+
+  const channels = new Map<string, ChannelNodes>();
+  Object.keys(settings.mixer.channels).forEach((id) => {
+    const filter = ctx.createBiquadFilter();
+    const gain = ctx.createGain();
+    const panner = ctx.createStereoPanner();
+    const reverbSend = ctx.createGain();
+    const delaySend = ctx.createGain();
+    filter.connect(gain).connect(panner).connect(master);
+    panner.connect(reverbSend).connect(buses.reverbInput);
+    panner.connect(delaySend).connect(buses.delayInput);
+    channels.set(id, { filter, gain, panner, reverbSend, delaySend });
+  });
+
+  const setValues = ({ mixer, effects, bpm }: MixSettings, smooth: boolean) => {
+    const set = (param: AudioParam, value: number) =>
+      setParamValue(ctx, param, value, smooth);
+    const anySolo = Object.values(mixer.channels).some((c) => c.solo);
+
+    channels.forEach((nodes, id) => {
+      const channel = mixer.channels[id];
+      if (channel) {
+        set(nodes.gain.gain, getChannelGain(channel, anySolo));
+        set(nodes.panner.pan, channel.pan);
+      }
+      const channelEffects = effects.channels[id];
+      if (channelEffects) {
+        nodes.filter.type = channelEffects.filterType;
+        set(nodes.filter.frequency, channelEffects.filterCutoff);
+        set(nodes.filter.Q, channelEffects.filterResonance);
+        set(nodes.reverbSend.gain, channelEffects.reverbSend);
+        set(nodes.delaySend.gain, channelEffects.delaySend);
+      }
+    });
+    set(master.gain, mixer.masterVolume);
+    buses.apply(effects, bpm, smooth);
+  };
+
+  setValues(settings, false);
+
+  return {
+    input: (channelId) => channels.get(channelId)?.filter ?? master,
+    analyser,
+    apply: (next) => setValues(next, true),
+  };
+};
+
+/**
+ * Absolute peak (0-1+) of the analyser's current time-domain window.
+ */
+export const readPeak = (
+  analyser: AnalyserNode,
+  data: Float32Array<ArrayBuffer>,
+) => {
+  analyser.getFloatTimeDomainData(data);
+  let peak = 0;
+  for (const sample of data) {
+    peak = Math.max(peak, Math.abs(sample));
+  }
+  return peak;
+};
@@ -0,0 +1,52 @@
+import type { ArrangementEntry, Instrument, Pattern, Step } from "~/types";
+import { DEFAULT_VELOCITY } from "~/types";
+
+export const createEmptySteps = (
+  instruments: Instrument[],
+  steps: number,
+): Step[][] => {
+  return instruments.map(() =>
+    Array.from({ length: steps }, () => ({
+      active: false,
+      velocity: DEFAULT_VELOCITY,
+    })),
+  );
+};
+
+export const createEmptyPattern = (
+  id: string,
+  name: string,
+  instruments: Instrument[],
+  steps: number,
+): Pattern => ({
+  id,
+  name,
+  steps: createEmptySteps(instruments, steps),
+  pianoNotes: [],
+});
+
+// Short random id, unique enough within a room
+export const createId = () => Math.random().toString(36).substring(2, 10);
+
+// First unused letter (A, B, C...), then numbered names once those run out
+export const nextPatternName = (patterns: Pattern[]) => {
+  const taken = new Set(patterns.map((p) => p.name));
+  for (let i = 0; i < 26; i++) {
+    const name = String.fromCharCode(65 + i);
+    if (!taken.has(name)) return name;
+  }
+  return `Pattern ${patterns.length + 1}`;
+};
+
+/**
+ * Expand the arrangement into the sequence of bars it plays, one entry per
+ * repeat. Entries pointing at deleted patterns are skipped.
+ */
+export const getSongBars = (
+  patterns: Pattern[],
+  arrangement: ArrangementEntry[],
+): Pattern[] =>
+  arrangement.flatMap(({ patternId, repeats }) => {
+    const pattern = patterns.find((p) => p.id === patternId);
+    return pattern ? Array.from({ length: repeats }, () => pattern) : [];
+  });
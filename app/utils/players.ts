@@ -0,0 +1,29 @@
+// Text colors for seats, repeating if a room ever has more seats than colors
+const PLAYER_COLORS = [
+  "text-blue-400",
+  "text-purple-400",
+  "text-green-400",
+  "text-orange-400",
+  "text-pink-400",
+  "text-cyan-400",
+  "text-yellow-400",
+  "text-red-400",
+];
+
+// Outlines in the same colors, for marking what a player points at
+const PLAYER_OUTLINES = [
+  "outline-blue-400",
+  "outline-purple-400",
+  "outline-green-400",
+  "outline-orange-400",
+  "outline-pink-400",
+  "outline-cyan-400",
+  "outline-yellow-400",
+  "outline-red-400",
+];
+
+export const getPlayerColor = (playerNumber: number) =>
+  PLAYER_COLORS[(playerNumber - 1) % PLAYER_COLORS.length];
+
+export const getPlayerOutline = (playerNumber: number) =>
+  PLAYER_OUTLINES[(playerNumber - 1) % PLAYER_OUTLINES.length];
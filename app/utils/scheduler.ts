@@ -0,0 +1,69 @@
+import { playSampleVoice } from "./audio";
+import type { MixerGraph } from "./mixer";
+import { noteFrequency, playSynthVoice } from "./synth";
+
+import type {
+  EffectsState,
+  Instrument,
+  MixerState,
+  PianoNote,
+  Step,
+  StepResolution,
+  SynthSettings,
+} from "~/types";
+import { PIANO_CHANNEL, STEPS_PER_BEAT } from "~/types";
+
+/**
+ * Everything needed to turn a step index into sound.
+ * The sequencer store state satisfies this shape directly.
+ */
+export interface PatternSnapshot {
+  steps: Step[][];
+  instruments: Instrument[];
+  pianoNotes: PianoNote[];
+  bpm: number;
+  resolution: StepResolution;
+  synth: SynthSettings;
+  mixer: MixerState;
+  effects: EffectsState;
+}
+
+// Length of one step in seconds at the given grid resolution
+export const getStepDuration = (bpm: number, resolution: StepResolution) =>
+  60 / bpm / STEPS_PER_BEAT[resolution];
+
+/**
+ * Schedule every drum hit and piano note that starts on `stepIndex`.
+ * Shared by the live lookahead scheduler and the offline exporter so both
+ * render the pattern identically.
+ */
+export const scheduleStep = (
+  ctx: BaseAudioContext,
+  mixer: MixerGraph,
+  buffers: Map<string, AudioBuffer>,
+  pattern: PatternSnapshot,
+  stepIndex: number,
+  time: number,
+) => {
+  pattern.steps.forEach((instrumentSteps, index) => {
+    const step = instrumentSteps[stepIndex];
+    const id = pattern.instruments[index]?.id;
+    const buffer = buffers.get(id);
+    if (step?.active && buffer) {
+      playSampleVoice(ctx, mixer.input(id), buffer, time, step.velocity);
+    }
+  });
+
+  const stepDuration = getStepDuration(pattern.bpm, pattern.resolution);
+  pattern.pianoNotes.forEach((note) => {
+    if (note.start !== stepIndex) return;
+    // Held notes keep the gate open for their whole length
+    playSynthVoice(ctx, mixer.input(PIANO_CHANNEL), {
+      freq: noteFrequency(note.noteIndex),
+      time,
+      duration: note.duration * stepDuration,
+      velocity: note.velocity,
+      settings: pattern.synth,
+    });
+  });
+};
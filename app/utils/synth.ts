@@ -0,0 +1,61 @@
+import type { SynthSettings } from "~/types";
+
+// PIANO_NOTES starts at C3, which is MIDI note 48
+const PIANO_BASE_MIDI = 48;
+
+// Peak gain of a full-velocity voice, leaves headroom for chords
+const VOICE_LEVEL = 0.3;
+
+/**
+ * Convert a PIANO_NOTES index into a frequency in Hz (A4 = 440Hz).
+ */
+export const noteFrequency = (noteIndex: number): number =>
+  440 * 2 ** ((PIANO_BASE_MIDI + noteIndex - 69) / 12);
+
+interface SynthVoiceOptions {
+  freq: number;
+  time: number;
+  duration: number; // gate length in seconds, release follows
+  velocity: number;
+  settings: SynthSettings;
+}
+
+/**
+ * Schedule a single synth voice: oscillator -> filter -> ADSR gain.
+ * Takes a BaseAudioContext so it works for both live and offline rendering.
+ * Returns the time at which the voice has fully released.
+ */
+export const playSynthVoice = (
+  ctx: BaseAudioContext,
+  destination: AudioNode,
+  { freq, time, duration, velocity, settings }: SynthVoiceOptions,
+): number => {
+  const { attack, decay, sustain, release } = settings;
+  const peak = velocity * VOICE_LEVEL;
+  const sustainLevel = peak * sustain;
+  const decayEnd = time + attack + decay;
+  // Short gates still play the full attack/decay before releasing
+  const gateEnd = Math.max(time + duration, decayEnd);
+  const releaseEnd = gateEnd + release;
+
+  const osc = ctx.createOscillator();
+  osc.type = settings.waveform;
+  osc.frequency.value = freq;
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = settings.filterType;
+  filter.frequency.value = settings.filterCutoff;
+  filter.Q.value = settings.filterResonance;
+
+  const gain = ctx.createGain();
+  gain.gain.setValueAtTime(0, time);
+  gain.gain.linearRampToValueAtTime(peak, time + attack);
+  gain.gain.linearRampToValueAtTime(sustainLevel, decayEnd);
+  gain.gain.setValueAtTime(sustainLevel, gateEnd);
+  gain.gain.linearRampToValueAtTime(0, releaseEnd);
+
+  osc.connect(filter).connect(gain).connect(destination);
+  osc.start(time);
+  osc.stop(releaseEnd + 0.01);
+  return releaseEnd;
+};
@@ -0,0 +1,51 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+// Thrown by request handlers, answered with its status and message
+export class HttpError extends Error {
+  constructor(
+    public status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+// Buffer the request body, dropping everything past the size limit
+export function readBody(
+  req: IncomingMessage,
+  limit: number,
+  tooLargeMessage = "Request body is too large",
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on("data", (chunk: Buffer) => {
+      size += chunk.length;
+      if (size <= limit) chunks.push(chunk);
+    });
+    req.on("end", () => {
+      if (size > limit) {
+        reject(new HttpError(413, tooLargeMessage));
+      } else {
+        resolve(Buffer.concat(chunks));
+      }
+    });
+    req.on("error", reject);
+  });
+}
+
+// Answer an HttpError with its own status, anything else with a 500
+export function sendError(res: ServerResponse, e: unknown, what: string) {
+  if (e instanceof HttpError) {
+    sendJson(res, e.status, { error: e.message });
+  } else {
+    console.error(`${what} failed:`, e);
+    sendJson(res, 500, { error: "Internal server error" });
+  }
+}
@@ -6,9 +6,10 @@
  *
  * The server:
  * 1. Sets up Express with compression and logging
- * 2. Initializes Socket.IO for real-time multiplayer sync
- * 3. Serves static assets from the client build
- * 4. Handles all other requests via the React Router SSR build
+ * 2. Restores saved rooms and initializes Socket.IO for real-time sync
+ * 3. Creates and lists rooms, and serves custom sample uploads for them
+ * 4. Serves static assets from the client build
+ * 5. Handles all other requests via the React Router SSR build
  */
 
 import compression from "compression";
@@ -17,26 +18,40 @@ import { createServer } from "http";
 import morgan from "morgan";
 import { Server as SocketIOServer } from "socket.io";
 
-import { setupSocketHandlers } from "./socket/index.js";
+import { createLobbyMiddleware } from "./lobby";
+import type { ClientToServerEvents, ServerToClientEvents } from "./socket";
+import { loadRooms, setupSocketHandlers } from "./socket";
+import { createSampleMiddleware } from "./uploads";
 
 const app = express();
 const server = createServer(app);
 
 // Initialize Socket.IO with CORS allowed for all origins
-const io = new SocketIOServer(server, {
-  cors: {
-    origin: "*",
-    methods: ["GET", "POST"],
+const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
+  server,
+  {
+    cors: {
+      origin: "*",
+      methods: ["GET", "POST"],
+    },
   },
-});
+);
 
-// Set up socket event handlers for room management and game sync
+// Bring back rooms saved before the last shutdown, then start listening
+// for room events
+await loadRooms();
 setupSocketHandlers(io);
 
 // Express middleware
 app.use(compression());
 app.disable("x-powered-by");
 
+// Room creation and the public room list
+app.use(createLobbyMiddleware());
+
+// Per-room custom sample uploads and downloads
+app.use(createSampleMiddleware(io));
+
 // Serve hashed assets with long cache (1 year)
 app.use(
   "/assets",
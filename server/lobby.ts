@@ -0,0 +1,97 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+import { HttpError, readBody, sendError, sendJson } from "./http";
+import {
+  createInvite,
+  createRoom,
+  createRoomValidator,
+  getRoomSummaries,
+} from "./socket";
+
+const ROOMS_ROUTE = "/api/rooms";
+
+// Settings are a handful of small fields
+const MAX_SETTINGS_BYTES = 4096;
+
+// Rooms each address may create within CREATE_WINDOW, since every one is
+// saved and kept until it empties out
+const CREATE_WINDOW = 60_000;
+const CREATE_RATE_LIMIT = 5;
+
+// Address -> times of the creations still inside the window
+const recentCreates = new Map<string, number[]>();
+
+/**
+ * Count a creation against the address's limit.
+ * Returns false, without counting it, if the limit is already reached.
+ */
+function takeCreate(address: string, now = Date.now()): boolean {
+  // Drop addresses that have been quiet for the whole window
+  for (const [key, times] of recentCreates) {
+    if (times.every((createdAt) => now - createdAt >= CREATE_WINDOW)) {
+      recentCreates.delete(key);
+    }
+  }
+  const creates = (recentCreates.get(address) ?? []).filter(
+    (createdAt) => now - createdAt < CREATE_WINDOW,
+  );
+  if (creates.length >= CREATE_RATE_LIMIT) {
+    recentCreates.set(address, creates);
+    return false;
+  }
+  creates.push(now);
+  recentCreates.set(address, creates);
+  return true;
+}
+
+async function handleCreate(req: IncomingMessage, res: ServerResponse) {
+  if (!takeCreate(req.socket.remoteAddress ?? "unknown")) {
+    throw new HttpError(429, "Too many rooms created, try again in a minute");
+  }
+  const data = await readBody(req, MAX_SETTINGS_BYTES);
+  let body: unknown;
+  try {
+    body = data.length ? JSON.parse(data.toString("utf8")) : {};
+  } catch {
+    throw new HttpError(400, "Settings must be JSON");
+  }
+  if (!createRoomValidator(body)) {
+    throw new HttpError(400, "Invalid room settings");
+  }
+
+  const { password, ...settings } = body;
+  const room = createRoom(settings, password);
+  // The creator gets in with an invite, whatever the room asks of others
+  const { token } = createInvite(room);
+  console.log(`Room ${room.id} created`);
+  sendJson(res, 201, { roomId: room.id, invite: token });
+}
+
+/**
+ * HTTP middleware for making and finding rooms.
+ *
+ * - POST /api/rooms creates a room from a JSON settings body and answers
+ *   with its code, plus an invite for the creator; each address may only
+ *   create a few rooms a minute
+ * - GET  /api/rooms lists the public rooms
+ *
+ * Written against plain Node req/res so it mounts in both Express
+ * (production) and Vite's connect server (development).
+ */
+export function createLobbyMiddleware() {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    if (pathname !== ROOMS_ROUTE) {
+      next();
+      return;
+    }
+
+    if (req.method === "GET") {
+      sendJson(res, 200, { rooms: getRoomSummaries() });
+    } else if (req.method === "POST") {
+      handleCreate(req, res).catch((e) => sendError(res, e, "Room creation"));
+    } else {
+      next();
+    }
+  };
+}
@@ -0,0 +1,77 @@
+import { randomBytes, scryptSync, timingSafeEqual } from "node:crypto";
+
+import type { JoinRejectedReason, Room } from "./types";
+
+// How long an invite link works for (ms)
+const INVITE_TTL = 24 * 60 * 60 * 1000;
+// Unused invites kept per room; the oldest go first past this
+const MAX_INVITES = 50;
+const KEY_LENGTH = 32;
+
+export function hashPassword(password: string): string {
+  const salt = randomBytes(16);
+  return `${salt.toString("hex")}:${scryptSync(password, salt, KEY_LENGTH).toString("hex")}`;
+}
+
+function checkPassword(passwordHash: string, password: string): boolean {
+  const [salt, hash] = passwordHash.split(":");
+  const expected = Buffer.from(hash, "hex");
+  const actual = scryptSync(password, Buffer.from(salt, "hex"), KEY_LENGTH);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+function pruneInvites(room: Room, now: number): void {
+  for (const [token, expiresAt] of Object.entries(room.invites)) {
+    if (expiresAt <= now) delete room.invites[token];
+  }
+}
+
+export function createInvite(
+  room: Room,
+  now = Date.now(),
+): { token: string; expiresAt: number } {
+  pruneInvites(room, now);
+  // Entries keep insertion order, so the first is the oldest
+  const tokens = Object.keys(room.invites);
+  const excess = Math.max(0, tokens.length - MAX_INVITES + 1);
+  for (const token of tokens.slice(0, excess)) {
+    delete room.invites[token];
+  }
+  const token = randomBytes(16).toString("base64url");
+  const expiresAt = now + INVITE_TTL;
+  room.invites[token] = expiresAt;
+  return { token, expiresAt };
+}
+
+/**
+ * Whether someone new may join with these credentials. A valid invite gets
+ * past the password too. Nothing is used up; see `redeemInvite`.
+ *
+ * A used or unknown invite only counts against rooms that need one. Clients
+ * send theirs again on every reconnect, and rooms that don't ask for one
+ * shouldn't turn them away for it.
+ */
+export function checkAccess(
+  room: Room,
+  password: string | undefined,
+  invite: string | undefined,
+  now = Date.now(),
+): JoinRejectedReason | null {
+  if (invite !== undefined) {
+    const expiresAt = room.invites[invite];
+    if (expiresAt !== undefined && expiresAt > now) return null;
+    if (room.inviteOnly) {
+      return expiresAt === undefined ? "invite-invalid" : "invite-expired";
+    }
+  } else if (room.inviteOnly) {
+    return "invite-required";
+  }
+  if (room.passwordHash === null) return null;
+  if (password === undefined) return "password-required";
+  return checkPassword(room.passwordHash, password) ? null : "wrong-password";
+}
+
+// Invites are single-use, gone once someone has joined with one
+export function redeemInvite(room: Room, invite: string | undefined): void {
+  if (invite !== undefined) delete room.invites[invite];
+}
@@ -0,0 +1,58 @@
+import { randomUUID } from "node:crypto";
+
+import type { ChatMessage, Player, Room } from "./types";
+import { MAX_CHAT_HISTORY } from "./types";
+
+// Sends allowed per socket within RATE_WINDOW, per kind
+const RATE_WINDOW = 10_000;
+export const CHAT_RATE_LIMIT = 5;
+export const REACTION_RATE_LIMIT = 10;
+
+// "<socket id>:<kind>" -> times of the sends still inside the window
+const recentSends = new Map<string, number[]>();
+
+/**
+ * Count a send against the socket's limit for this kind of message.
+ * Returns false, without counting it, if the limit is already reached.
+ */
+export function takeSend(
+  socketId: string,
+  kind: "chat" | "reaction",
+  limit: number,
+  now = Date.now(),
+): boolean {
+  const key = `${socketId}:${kind}`;
+  const sends = (recentSends.get(key) ?? []).filter(
+    (sentAt) => now - sentAt < RATE_WINDOW,
+  );
+  if (sends.length >= limit) {
+    recentSends.set(key, sends);
+    return false;
+  }
+  sends.push(now);
+  recentSends.set(key, sends);
+  return true;
+}
+
+export function forgetSends(socketId: string): void {
+  recentSends.delete(`${socketId}:chat`);
+  recentSends.delete(`${socketId}:reaction`);
+}
+
+export function addChatMessage(
+  room: Room,
+  player: Player,
+  text: string,
+): ChatMessage {
+  const message: ChatMessage = {
+    id: randomUUID(),
+    playerId: player.id,
+    name: player.name,
+    playerNumber: player.playerNumber,
+    text: text.trim(),
+    sentAt: Date.now(),
+  };
+  room.chat.push(message);
+  if (room.chat.length > MAX_CHAT_HISTORY) room.chat.shift();
+  return message;
+}
@@ -0,0 +1,137 @@
+import type {
+  Player,
+  PlayerResult,
+  PlayerStats,
+  Room,
+  TypedServer,
+} from "./types";
+
+/**
+ * The running tally for a player, started the first time they do anything.
+ * Name and seat follow the player in case either changed since.
+ */
+export function getStats(room: Room, player: Player): PlayerStats {
+  const stats = (room.stats[player.id] ??= {
+    playerId: player.id,
+    name: player.name,
+    playerNumber: player.playerNumber,
+    notesAdded: 0,
+    notesRemoved: 0,
+    instrumentsUsed: [],
+    turnsPlayed: 0,
+    ratings: [],
+  });
+  stats.name = player.name;
+  stats.playerNumber = player.playerNumber;
+  return stats;
+}
+
+/**
+ * Count notes a player placed or took away. `instrument` is the drum or
+ * "piano" the added notes were played on.
+ */
+export function countNotes(
+  room: Room,
+  player: Player,
+  change: { added?: number; removed?: number; instrument?: string },
+): void {
+  const stats = getStats(room, player);
+  stats.notesAdded += change.added ?? 0;
+  stats.notesRemoved += change.removed ?? 0;
+  if (
+    change.instrument &&
+    change.added &&
+    !stats.instrumentsUsed.includes(change.instrument)
+  ) {
+    stats.instrumentsUsed.push(change.instrument);
+  }
+}
+
+export function countTurn(room: Room, player: Player): void {
+  getStats(room, player).turnsPlayed += 1;
+}
+
+// Connected players who still owe the open vote a rating
+function getPendingVoters(room: Room): Player[] {
+  const { vote } = room;
+  if (!vote) return [];
+  return Array.from(room.players.values()).filter(
+    (p) => p.connected && p.id !== vote.playerId && !(p.id in vote.ratings),
+  );
+}
+
+/**
+ * Put the turn a player just finished up for rating by everyone else.
+ * Returns false if nobody connected is left to rate it.
+ */
+export function openVote(
+  io: TypedServer,
+  room: Room,
+  player: Player,
+  endsGame: boolean,
+): boolean {
+  room.vote = {
+    round: room.turn.round,
+    playerId: player.id,
+    playerName: player.name,
+    ratings: {},
+    endsGame,
+  };
+  if (getPendingVoters(room).length === 0) {
+    room.vote = null;
+    return false;
+  }
+  io.to(room.id).emit("vote-changed", { vote: room.vote });
+  return true;
+}
+
+/**
+ * Close the vote once every connected voter has rated, or right away when
+ * `force` is set. Ratings are kept on the rated player's stats. Closing the
+ * vote on the final turn finishes the game.
+ */
+export function settleVote(io: TypedServer, room: Room, force = false): void {
+  const { vote } = room;
+  if (!vote) return;
+  if (!force && getPendingVoters(room).length > 0) {
+    io.to(room.id).emit("vote-changed", { vote });
+    return;
+  }
+
+  room.vote = null;
+  const rated = room.stats[vote.playerId];
+  rated?.ratings.push(...Object.values(vote.ratings));
+  io.to(room.id).emit("vote-changed", { vote: null });
+  if (vote.endsGame) finishGame(io, room);
+}
+
+function getScore(room: Room, stats: PlayerStats): number | null {
+  if (room.game.mode !== "vote" || stats.ratings.length === 0) return null;
+  const total = stats.ratings.reduce((sum, rating) => sum + rating, 0);
+  return Math.round((total / stats.ratings.length) * 10) / 10;
+}
+
+/**
+ * Everyone's contribution over the game, best first: by average rating in
+ * vote mode, otherwise by notes added. Seated players who never edited are
+ * listed too.
+ */
+export function getResults(room: Room): PlayerResult[] {
+  for (const player of room.players.values()) getStats(room, player);
+  return Object.values(room.stats)
+    .map((stats) => ({ ...stats, score: getScore(room, stats) }))
+    .sort(
+      (a, b) =>
+        (b.score ?? 0) - (a.score ?? 0) ||
+        b.notesAdded - a.notesAdded ||
+        a.playerNumber - b.playerNumber,
+    );
+}
+
+export function finishGame(io: TypedServer, room: Room): void {
+  room.turn.isFinished = true;
+  io.to(room.id).emit("game-finished", {
+    results: getResults(room),
+    turn: { ...room.turn },
+  });
+}
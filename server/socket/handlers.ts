@@ -1,236 +1,1374 @@
-import type { Server, Socket } from "socket.io";
+import { randomUUID } from "node:crypto";
 
+import { checkAccess, createInvite, redeemInvite } from "./access";
 import {
+  addChatMessage,
+  CHAT_RATE_LIMIT,
+  forgetSends,
+  REACTION_RATE_LIMIT,
+  takeSend,
+} from "./chat";
+import { countNotes, getResults, settleVote } from "./game";
+import {
+  clearHistory,
+  getHistoryState,
+  recordEdit,
+  redoEdit,
+  undoEdit,
+} from "./history";
+import { saveRoom } from "./persistence";
+import {
+  cancelSeatRelease,
+  canPlacePianoNote,
   createEmptySteps,
-  deleteRoom,
-  getRoom,
+  createPattern,
+  expireIfEmpty,
+  getFreePlayerNumber,
+  getPattern,
+  getPlayerBySession,
+  holdSeat,
+  isDrumKit,
   isRoomEmpty,
   isRoomFull,
+  parseArrangement,
+  parsePatternName,
+  parsePatternSettings,
+  parseTurnOrder,
+  resizePatterns,
   rooms,
 } from "./rooms";
-import { TURN_DURATION } from "./types";
+import type { RuleViolation } from "./rules";
+import { checkInstrument, checkPatternWipe, checkRemoval } from "./rules";
+import { getPendingApprovals, getSnapshot, restoreSnapshot } from "./snapshots";
+import { retimeTransport, setTransport } from "./transport";
+import { checkTurn, endTurn, startTurn, stopTurnTimer } from "./turns";
+import type {
+  ClientEvent,
+  ClientEventPayloads,
+  ErrorCode,
+  PianoNote,
+  Player,
+  Room,
+  Spectator,
+  TypedServer,
+  TypedSocket,
+} from "./types";
+import {
+  clientEventValidators,
+  DEFAULT_VELOCITY,
+  INSTRUMENTS,
+  MAX_PATTERNS,
+  STEP_COUNTS,
+} from "./types";
 
-export function setupSocketHandlers(io: Server) {
-  io.on("connection", (socket: Socket) => {
+// Events that never change anything a room saves
+const TRANSIENT_EVENTS: ReadonlySet<string> = new Set<ClientEvent>([
+  "set-presence",
+  "transport-play",
+  "transport-stop",
+  "transport-seek",
+  "send-chat",
+  "send-reaction",
+  "request-beat",
+]);
+
+export function setupSocketHandlers(io: TypedServer) {
+  io.on("connection", (socket: TypedSocket) => {
     console.log(`Client connected: ${socket.id}`);
 
-    socket.on("join-room", (data: { roomId: string; playerName: string }) => {
-      const { roomId, playerName } = data;
-      const room = getRoom(roomId);
-      if (!room) return;
+    // Every room event may change what gets saved; writes are batched, so
+    // queueing one for events that end up rejected costs nothing
+    socket.onAny((event: string, data?: { roomId?: unknown }) => {
+      if (TRANSIENT_EVENTS.has(event)) return;
+      const room =
+        typeof data?.roomId === "string" ? rooms.get(data.roomId) : undefined;
+      if (room) saveRoom(room);
+    });
 
-      const existingPlayer = Array.from(room.players.values()).find(
-        (p) => p.name.toLowerCase() === playerName.toLowerCase(),
-      );
-      if (existingPlayer) {
-        socket.emit("join-rejected", { reason: "name-taken" });
+    const reject = (event: ClientEvent, code: ErrorCode, message: string) => {
+      socket.emit("error", { event, code, message });
+    };
+
+    // Register a handler that only ever sees payloads matching the event's
+    // shape; anything else is answered with an `invalid-payload` error
+    const on = <E extends ClientEvent>(
+      event: E,
+      handler: (data: ClientEventPayloads[E]) => void,
+    ) => {
+      const validate = clientEventValidators[event];
+      const listener = (data: unknown) => {
+        if (!validate(data)) {
+          reject(event, "invalid-payload", `Malformed ${event} request`);
+          return;
+        }
+        handler(data);
+      };
+      // Socket.IO's listener types can't follow a generic event name
+      socket.on(event, listener as never);
+    };
+
+    // The room and the sender's seat in it. Spectators and sockets that
+    // never joined get an error instead.
+    const getSeat = (
+      event: ClientEvent,
+      roomId: string,
+    ): { room: Room; player: Player } | null => {
+      const room = rooms.get(roomId);
+      if (!room) {
+        reject(event, "room-not-found", "This room no longer exists");
+        return null;
+      }
+      const player = room.players.get(socket.id);
+      if (!player) {
+        reject(
+          event,
+          "not-a-player",
+          room.spectators.has(socket.id)
+            ? "Spectators can't change the room"
+            : "Join the room first",
+        );
+        return null;
+      }
+      return { room, player };
+    };
+
+    // Turn away an edit that breaks the room's turn rules. Returns true if
+    // it was.
+    const rejectRule = (
+      event: ClientEvent,
+      violation: RuleViolation | null,
+    ): boolean => {
+      if (!violation) return false;
+      reject(event, violation.code, violation.message);
+      return true;
+    };
+
+    // Edits out of turn, between turns, past the deadline or after the
+    // game are turned away the same way. Returns true if the edit was.
+    const rejectOutOfTurn = (
+      event: ClientEvent,
+      room: Room,
+      player: Player,
+      betweenTurns = false,
+    ): boolean => rejectRule(event, checkTurn(room, player, betweenTurns));
+
+    // Log a turn edit so its player can undo it, then tell the room
+    const record = (room: Room, event: ClientEvent, target?: string) => {
+      if (recordEdit(room, event, target)) {
+        io.to(room.id).emit("history-changed", getHistoryState(room.id));
+      }
+    };
+
+    // Undo and redo belong to the running turn and only its player
+    const stepHistory = (
+      event: "undo" | "redo",
+      roomId: string,
+      apply: (room: Room) => boolean,
+    ) => {
+      const seat = getSeat(event, roomId);
+      if (!seat) return;
+
+      const { room, player } = seat;
+      if (!room.turn.isActive) {
+        reject(event, "no-active-turn", `Nothing to ${event} between turns`);
         return;
       }
+      if (rejectOutOfTurn(event, room, player)) return;
 
-      if (isRoomFull(room)) {
-        socket.emit("room-full");
+      // Undo can bring back an old resolution, and with it a new step length
+      retimeTransport(room);
+      if (!apply(room)) {
+        reject(event, "history-empty", `Nothing to ${event}`);
         return;
       }
 
-      const playerNum = room.players.size + 1;
-      socket.join(roomId);
-      room.players.set(socket.id, {
-        id: socket.id,
-        name: playerName,
-        socketId: socket.id,
-        playerNumber: playerNum as 1 | 2,
+      io.to(roomId).emit("beat-restored", {
+        stepCount: room.stepCount,
+        resolution: room.resolution,
+        patterns: room.patterns,
+        arrangement: room.arrangement,
+        notesAdded: room.turn.notesAdded,
+        playerId: socket.id,
       });
+      io.to(roomId).emit("history-changed", getHistoryState(roomId));
+    };
+
+    // Roll back once nobody connected is left to agree
+    const settleRestore = (room: Room) => {
+      const proposal = room.restoreProposal;
+      if (!proposal) return;
+      if (getPendingApprovals(room).length > 0) {
+        io.to(room.id).emit("restore-proposal-changed", { proposal });
+        return;
+      }
+
+      const snapshot = getSnapshot(room, proposal.snapshotId);
+      room.restoreProposal = null;
+      if (snapshot) {
+        restoreSnapshot(room, snapshot);
+        // A disconnect can settle it too, outside any saved event
+        saveRoom(room);
+        io.to(room.id).emit("snapshot-restored", {
+          stepCount: room.stepCount,
+          resolution: room.resolution,
+          patterns: room.patterns,
+          arrangement: room.arrangement,
+          bpm: room.bpm,
+          snapshotId: snapshot.id,
+        });
+      }
+      io.to(room.id).emit("restore-proposal-changed", { proposal: null });
+    };
 
+    // Spectators join with no player number or session token
+    const emitJoinedRoom = (
+      room: Room,
+      player: Player | null,
+      token: string | null,
+    ) => {
       socket.emit("joined-room", {
-        playerNumber: playerNum,
+        playerNumber: player?.playerNumber ?? null,
+        sessionToken: token,
+        serverTime: Date.now(),
         room: {
           id: room.id,
-          steps: room.steps,
-          pianoSteps: Array.from(room.pianoSteps.entries()),
+          maxPlayers: room.maxPlayers,
+          stepCount: room.stepCount,
+          resolution: room.resolution,
+          turnDuration: room.turnDuration,
+          bpmRange: room.bpmRange,
+          visibility: room.visibility,
+          patterns: room.patterns,
+          arrangement: room.arrangement,
           bpm: room.bpm,
+          kit: room.kit,
+          synth: room.synth,
+          mixer: room.mixer,
+          effects: room.effects,
+          samples: room.samples,
           turn: room.turn,
+          game: room.game,
+          rules: room.rules,
+          vote: room.vote,
+          // Held back while the final turn is still being rated
+          results: room.turn.isFinished && !room.vote ? getResults(room) : null,
+          history: getHistoryState(room.id),
+          transport: room.transport,
+          snapshots: room.snapshots,
+          restoreProposal: room.restoreProposal,
+          chat: room.chat,
           players: Array.from(room.players.values()),
+          spectators: Array.from(room.spectators.values()),
         },
       });
+    };
+
+    on("join-room", (data) => {
+      const { roomId, playerName, password, invite, sessionToken } = data;
+      // Rooms are only made through the create request, see server/lobby
+      const room = rooms.get(roomId);
+      if (!room) {
+        socket.emit("join-rejected", { reason: "room-not-found" });
+        return;
+      }
+      // Joining twice would leave a second place behind that nothing ever
+      // cleans up
+      if (room.players.has(socket.id) || room.spectators.has(socket.id)) {
+        reject("join-room", "invalid-value", "Already in this room");
+        return;
+      }
+
+      // A returning player takes back their seat, turn and all
+      const returning = sessionToken
+        ? getPlayerBySession(room, sessionToken)
+        : undefined;
+      if (returning && sessionToken) {
+        cancelSeatRelease(returning.id);
+        // After a refresh the old socket may not have disconnected yet
+        io.in(returning.socketId).socketsLeave(roomId);
+        room.players.delete(returning.socketId);
+        returning.socketId = socket.id;
+        returning.connected = true;
+        room.players.set(socket.id, returning);
+        socket.join(roomId);
+
+        emitJoinedRoom(room, returning, sessionToken);
+        socket.to(roomId).emit("player-reconnected", {
+          playerId: returning.id,
+        });
+        console.log(
+          `Player ${returning.name} (P${returning.playerNumber}) rejoined room ${roomId}`,
+        );
+        return;
+      }
+
+      const denied = checkAccess(room, password, invite);
+      if (denied) {
+        socket.emit("join-rejected", { reason: denied });
+        return;
+      }
+
+      const existingName = [
+        ...room.players.values(),
+        ...room.spectators.values(),
+      ].find((p) => p.name.toLowerCase() === playerName.toLowerCase());
+      if (existingName) {
+        socket.emit("join-rejected", { reason: "name-taken" });
+        return;
+      }
+      redeemInvite(room, invite);
+
+      // Everyone past the player seats watches read-only
+      if (isRoomFull(room)) {
+        const spectator: Spectator = {
+          id: randomUUID(),
+          name: playerName,
+          socketId: socket.id,
+        };
+        socket.join(roomId);
+        room.spectators.set(socket.id, spectator);
+
+        emitJoinedRoom(room, null, null);
+        socket.to(roomId).emit("spectator-joined", { spectator });
+
+        console.log(`Spectator ${playerName} joined room ${roomId}`);
+        return;
+      }
+
+      const playerNum = getFreePlayerNumber(room);
+      const player: Player = {
+        id: randomUUID(),
+        name: playerName,
+        socketId: socket.id,
+        playerNumber: playerNum,
+        connected: true,
+      };
+      const newToken = randomUUID();
+      socket.join(roomId);
+      room.players.set(socket.id, player);
+      room.sessions.set(newToken, player.id);
+      room.turn.order.push(playerNum);
+
+      emitJoinedRoom(room, player, newToken);
 
       socket.to(roomId).emit("player-joined", {
         playerNumber: playerNum,
-        player: { id: socket.id, name: playerName },
+        player,
+        order: room.turn.order,
       });
 
       console.log(`Player ${playerName} (P${playerNum}) joined room ${roomId}`);
     });
 
-    socket.on(
-      "toggle-step",
-      (data: {
-        roomId: string;
-        instrumentIndex: number;
-        stepIndex: number;
-      }) => {
-        const { roomId, instrumentIndex, stepIndex } = data;
-        const room = rooms.get(roomId);
-        if (!room) return;
+    on("toggle-step", (data) => {
+      const { roomId, patternId, instrumentIndex, stepIndex } = data;
+      const seat = getSeat("toggle-step", roomId);
+      if (!seat || rejectOutOfTurn("toggle-step", seat.room, seat.player)) {
+        return;
+      }
 
-        const player = room.players.get(socket.id);
-        if (!player) return;
-
-        if (
-          room.turn.isActive &&
-          player.playerNumber !== room.turn.currentPlayer
-        ) {
-          socket.emit("not-your-turn", {
-            currentPlayer: room.turn.currentPlayer,
-            yourPlayer: player.playerNumber,
-          });
-          return;
-        }
+      // A toggle sent just before the pattern shrank or was deleted
+      // may no longer have a target
+      const step = getPattern(seat.room, patternId)?.steps[instrumentIndex]?.[
+        stepIndex
+      ];
+      if (!step) {
+        reject("toggle-step", "not-found", "That step no longer exists");
+        return;
+      }
 
-        room.steps[instrumentIndex][stepIndex] =
-          !room.steps[instrumentIndex][stepIndex];
+      const { room, player } = seat;
+      const instrument = INSTRUMENTS[instrumentIndex];
+      if (
+        rejectRule(
+          "toggle-step",
+          step.active
+            ? (checkInstrument(room, instrument) ??
+                checkRemoval(room, player, step.ownerId))
+            : checkInstrument(room, instrument, true),
+        )
+      ) {
+        return;
+      }
 
-        socket.to(roomId).emit("step-toggled", {
-          instrumentIndex,
-          stepIndex,
-          active: room.steps[instrumentIndex][stepIndex],
-          playerId: socket.id,
-        });
-      },
-    );
+      record(seat.room, "toggle-step");
+      step.active = !step.active;
+      if (step.active) {
+        step.ownerId = player.id;
+        room.turn.notesAdded += 1;
+      } else {
+        delete step.ownerId;
+      }
+      countNotes(
+        seat.room,
+        seat.player,
+        step.active
+          ? { added: 1, instrument: INSTRUMENTS[instrumentIndex] }
+          : { removed: 1 },
+      );
+
+      socket.to(roomId).emit("step-toggled", {
+        patternId,
+        instrumentIndex,
+        stepIndex,
+        active: step.active,
+        ownerId: step.ownerId,
+        playerId: socket.id,
+      });
+    });
 
-    socket.on("set-bpm", (data: { roomId: string; bpm: number }) => {
+    on("set-step-velocity", (data) => {
+      const { roomId, patternId, instrumentIndex, stepIndex } = data;
+      const seat = getSeat("set-step-velocity", roomId);
+      if (
+        !seat ||
+        rejectOutOfTurn("set-step-velocity", seat.room, seat.player)
+      ) {
+        return;
+      }
+
+      const step = getPattern(seat.room, patternId)?.steps[instrumentIndex]?.[
+        stepIndex
+      ];
+      if (!step) {
+        reject("set-step-velocity", "not-found", "That step no longer exists");
+        return;
+      }
+      if (
+        rejectRule(
+          "set-step-velocity",
+          checkInstrument(seat.room, INSTRUMENTS[instrumentIndex]),
+        )
+      ) {
+        return;
+      }
+
+      record(
+        seat.room,
+        "set-step-velocity",
+        `${patternId}:${instrumentIndex}:${stepIndex}`,
+      );
+      step.velocity = Math.max(0, Math.min(1, data.velocity));
+
+      socket.to(roomId).emit("step-velocity-changed", {
+        patternId,
+        instrumentIndex,
+        stepIndex,
+        velocity: step.velocity,
+        playerId: socket.id,
+      });
+    });
+
+    on("set-bpm", (data) => {
       const { roomId, bpm } = data;
-      const room = rooms.get(roomId);
-      if (!room) return;
+      const seat = getSeat("set-bpm", roomId);
+      if (!seat) return;
+
+      const { min, max } = seat.room.bpmRange;
+      if (bpm < min || bpm > max) {
+        reject("set-bpm", "invalid-value", `Tempo must be ${min}-${max} BPM`);
+        return;
+      }
 
-      room.bpm = bpm;
+      retimeTransport(seat.room);
+      seat.room.bpm = bpm;
       socket.to(roomId).emit("bpm-changed", { bpm, playerId: socket.id });
     });
 
-    socket.on("start-turn", (data: { roomId: string }) => {
-      const { roomId } = data;
-      const room = rooms.get(roomId);
-      if (!room) return;
+    on("set-kit", (data) => {
+      const { roomId, kit } = data;
+      const seat = getSeat("set-kit", roomId);
+      if (!seat) return;
+
+      if (!isDrumKit(kit)) {
+        reject("set-kit", "invalid-value", `Unknown drum kit "${kit}"`);
+        return;
+      }
+
+      seat.room.kit = kit;
+      socket.to(roomId).emit("kit-changed", { kit, playerId: socket.id });
+    });
+
+    on("set-synth", (data) => {
+      const { roomId, synth } = data;
+      const seat = getSeat("set-synth", roomId);
+      if (!seat) return;
+
+      const { room } = seat;
+      room.synth = { ...room.synth, ...synth };
+      socket.to(roomId).emit("synth-changed", {
+        synth: room.synth,
+        playerId: socket.id,
+      });
+    });
+
+    on("set-mixer-channel", (data) => {
+      const { roomId, channelId, channel } = data;
+      const seat = getSeat("set-mixer-channel", roomId);
+      if (!seat) return;
+
+      const { room } = seat;
+      if (!Object.hasOwn(room.mixer.channels, channelId)) {
+        reject("set-mixer-channel", "not-found", "Unknown mixer channel");
+        return;
+      }
+
+      room.mixer.channels[channelId] = {
+        ...room.mixer.channels[channelId],
+        ...channel,
+      };
+      socket.to(roomId).emit("mixer-channel-changed", {
+        channelId,
+        channel: room.mixer.channels[channelId],
+        playerId: socket.id,
+      });
+    });
+
+    on("set-master-volume", (data) => {
+      const { roomId, masterVolume } = data;
+      const seat = getSeat("set-master-volume", roomId);
+      if (!seat) return;
+
+      seat.room.mixer.masterVolume = masterVolume;
+      socket.to(roomId).emit("master-volume-changed", {
+        masterVolume,
+        playerId: socket.id,
+      });
+    });
 
-      room.turn.isActive = true;
-      room.turn.timeRemaining = TURN_DURATION;
+    on("set-channel-effects", (data) => {
+      const { roomId, channelId, effects } = data;
+      const seat = getSeat("set-channel-effects", roomId);
+      if (!seat) return;
 
-      io.to(roomId).emit("turn-started", {
-        currentPlayer: room.turn.currentPlayer,
-        timeRemaining: room.turn.timeRemaining,
-        isActive: room.turn.isActive,
-        round: room.turn.round,
+      const { room } = seat;
+      if (!Object.hasOwn(room.effects.channels, channelId)) {
+        reject("set-channel-effects", "not-found", "Unknown mixer channel");
+        return;
+      }
+
+      room.effects.channels[channelId] = {
+        ...room.effects.channels[channelId],
+        ...effects,
+      };
+      socket.to(roomId).emit("channel-effects-changed", {
+        channelId,
+        effects: room.effects.channels[channelId],
+        playerId: socket.id,
       });
     });
 
-    socket.on("end-turn", (data: { roomId: string }) => {
+    on("set-effect-params", (data) => {
+      const { roomId, reverb, delay } = data;
+      const seat = getSeat("set-effect-params", roomId);
+      if (!seat) return;
+
+      const { room } = seat;
+      room.effects.reverb = { ...room.effects.reverb, ...reverb };
+      room.effects.delay = { ...room.effects.delay, ...delay };
+      socket.to(roomId).emit("effect-params-changed", {
+        reverb: room.effects.reverb,
+        delay: room.effects.delay,
+        playerId: socket.id,
+      });
+    });
+
+    on("start-turn", (data) => {
+      const seat = getSeat("start-turn", data.roomId);
+      if (!seat) return;
+
+      if (seat.room.turn.isActive) {
+        reject("start-turn", "turn-in-progress", "A turn is already running");
+        return;
+      }
+      if (seat.room.turn.isFinished) {
+        reject("start-turn", "game-over", "The game is over");
+        return;
+      }
+
+      // Whoever hasn't rated the last turn by now has passed on it
+      settleVote(io, seat.room, true);
+      // Restores only happen between turns, so an open one is dropped
+      if (seat.room.restoreProposal) {
+        seat.room.restoreProposal = null;
+        io.to(seat.room.id).emit("restore-proposal-changed", {
+          proposal: null,
+        });
+      }
+      startTurn(io, seat.room);
+    });
+
+    on("end-turn", (data) => {
+      const seat = getSeat("end-turn", data.roomId);
+      if (!seat) return;
+
+      // The server may already have ended this turn on its deadline, so a
+      // late click must not skip the next player's turn as well
+      const { room, player } = seat;
+      if (!room.turn.isActive) {
+        reject("end-turn", "no-active-turn", "No turn is running");
+        return;
+      }
+      if (player.playerNumber !== room.turn.currentPlayer) {
+        reject(
+          "end-turn",
+          "not-your-turn",
+          `It's Player ${room.turn.currentPlayer}'s turn`,
+        );
+        return;
+      }
+
+      endTurn(io, room);
+    });
+
+    on("set-turn-order", (data) => {
       const { roomId } = data;
-      const room = rooms.get(roomId);
-      if (!room) return;
+      const seat = getSeat("set-turn-order", roomId);
+      if (!seat) return;
 
-      room.turn.currentPlayer = room.turn.currentPlayer === 1 ? 2 : 1;
-      room.turn.isActive = false;
-      room.turn.timeRemaining = TURN_DURATION;
-      if (room.turn.currentPlayer === 1) {
-        room.turn.round += 1;
+      // Reordering mid-turn could hand the turn to someone unexpectedly
+      const { room } = seat;
+      if (room.turn.isActive) {
+        reject(
+          "set-turn-order",
+          "turn-in-progress",
+          "The order can only change between turns",
+        );
+        return;
       }
 
-      io.to(roomId).emit("turn-ended", {
-        currentPlayer: room.turn.currentPlayer,
-        timeRemaining: room.turn.timeRemaining,
-        round: room.turn.round,
-        isActive: room.turn.isActive,
+      const order = parseTurnOrder(room, data.order);
+      if (!order) {
+        reject(
+          "set-turn-order",
+          "invalid-value",
+          "The order must list every player once",
+        );
+        return;
+      }
+
+      room.turn.order = order;
+      // The sender waits for this too, so a refused order never shows
+      io.to(roomId).emit("turn-order-changed", {
+        order,
+        playerId: socket.id,
       });
     });
 
-    socket.on("reset-game", (data: { roomId: string }) => {
+    on("reset-game", (data) => {
       const { roomId } = data;
-      const room = rooms.get(roomId);
-      if (!room) return;
+      const seat = getSeat("reset-game", roomId);
+      if (!seat) return;
 
-      room.steps = createEmptySteps();
-      room.pianoSteps = new Map();
+      const { room } = seat;
+      room.patterns = [createPattern(randomUUID(), "A", room.stepCount)];
+      room.arrangement = [];
+      room.snapshots = [];
+      room.restoreProposal = null;
+      room.stats = {};
+      room.vote = null;
+      stopTurnTimer(roomId);
+      clearHistory(roomId);
       room.turn = {
-        currentPlayer: 1,
-        timeRemaining: TURN_DURATION,
+        currentPlayer: room.turn.order[0] ?? 1,
+        order: room.turn.order,
+        timeRemaining: room.turnDuration,
+        deadline: null,
         isActive: false,
+        isFinished: false,
+        assignment: null,
+        notesAdded: 0,
         round: 1,
       };
 
       io.to(roomId).emit("game-reset", {
-        steps: room.steps,
-        pianoSteps: Array.from(room.pianoSteps.entries()),
+        snapshots: room.snapshots,
+        patterns: room.patterns,
+        arrangement: room.arrangement,
         bpm: room.bpm,
+        synth: room.synth,
         turn: room.turn,
       });
     });
 
-    socket.on("clear-pattern", (data: { roomId: string }) => {
+    on("set-game", (data) => {
+      const { roomId, mode, rounds } = data;
+      const seat = getSeat("set-game", roomId);
+      if (!seat) return;
+
+      // Changing the rules mid-game would move the finish line
+      const { room } = seat;
+      if (room.turn.isActive || room.snapshots.length > 0) {
+        reject(
+          "set-game",
+          "invalid-value",
+          "The game can only change before the first turn",
+        );
+        return;
+      }
+
+      room.game = { mode, rounds };
+      // The sender waits for this too, so a refused change never shows
+      io.to(roomId).emit("game-changed", {
+        mode,
+        rounds,
+        playerId: socket.id,
+      });
+    });
+
+    on("set-rules", (data) => {
+      const { roomId, ...changes } = data;
+      const seat = getSeat("set-rules", roomId);
+      if (!seat) return;
+
+      // A turn plays by the rules it started with
+      const { room } = seat;
+      if (room.turn.isActive) {
+        reject(
+          "set-rules",
+          "turn-in-progress",
+          "The rules can only change between turns",
+        );
+        return;
+      }
+
+      room.rules = { ...room.rules, ...changes };
+      // The sender waits for this too, so a refused change never shows
+      io.to(roomId).emit("rules-changed", {
+        ...room.rules,
+        playerId: socket.id,
+      });
+    });
+
+    on("rate-turn", (data) => {
+      const { roomId, rating } = data;
+      const seat = getSeat("rate-turn", roomId);
+      if (!seat) return;
+
+      const { room, player } = seat;
+      if (!room.vote) {
+        reject("rate-turn", "not-found", "No turn is up for a vote");
+        return;
+      }
+      if (room.vote.playerId === player.id) {
+        reject("rate-turn", "invalid-value", "You can't rate your own turn");
+        return;
+      }
+
+      // A rating can be changed until everyone has voted
+      room.vote.ratings[player.id] = rating;
+      settleVote(io, room);
+    });
+
+    on("clear-pattern", (data) => {
+      const { roomId, patternId } = data;
+      const seat = getSeat("clear-pattern", roomId);
+      if (!seat || rejectOutOfTurn("clear-pattern", seat.room, seat.player)) {
+        return;
+      }
+
+      const pattern = getPattern(seat.room, patternId);
+      if (!pattern) {
+        reject("clear-pattern", "not-found", "That pattern no longer exists");
+        return;
+      }
+      if (
+        rejectRule(
+          "clear-pattern",
+          checkPatternWipe(seat.room, seat.player, pattern),
+        )
+      ) {
+        return;
+      }
+
+      record(seat.room, "clear-pattern");
+      countNotes(seat.room, seat.player, {
+        removed:
+          pattern.steps.flat().filter((step) => step.active).length +
+          pattern.pianoNotes.length,
+      });
+      pattern.steps = createEmptySteps(seat.room.stepCount);
+      pattern.pianoNotes = [];
+      io.to(roomId).emit("pattern-cleared", { patternId });
+    });
+
+    on("set-pattern-length", (data) => {
       const { roomId } = data;
-      const room = rooms.get(roomId);
-      if (!room) return;
+      const seat = getSeat("set-pattern-length", roomId);
+      // Shrinking drops notes, so it follows the same turn rules as edits.
+      // It is a room setting too, so it may also change between turns.
+      if (
+        !seat ||
+        rejectOutOfTurn("set-pattern-length", seat.room, seat.player, true)
+      ) {
+        return;
+      }
 
-      room.steps = createEmptySteps();
-      room.pianoSteps = new Map();
-      io.to(roomId).emit("pattern-cleared");
+      // Falling back to the default length would drop notes nobody asked to
+      if (
+        data.stepCount !== undefined &&
+        !STEP_COUNTS.includes(data.stepCount)
+      ) {
+        reject(
+          "set-pattern-length",
+          "invalid-value",
+          `Patterns can't be ${data.stepCount} steps long`,
+        );
+        return;
+      }
+
+      const { room } = seat;
+      const { stepCount, resolution } = parsePatternSettings({
+        stepCount: data.stepCount ?? room.stepCount,
+        resolution: data.resolution ?? room.resolution,
+      });
+      record(room, "set-pattern-length");
+      retimeTransport(room);
+      resizePatterns(room, stepCount);
+      room.resolution = resolution;
+
+      socket.to(roomId).emit("pattern-length-changed", {
+        stepCount: room.stepCount,
+        resolution: room.resolution,
+        patterns: room.patterns,
+        playerId: socket.id,
+      });
     });
 
-    socket.on(
-      "toggle-piano-note",
-      (data: { roomId: string; stepIndex: number; noteIndex: number }) => {
-        const { roomId, stepIndex, noteIndex } = data;
-        const room = rooms.get(roomId);
-        if (!room) return;
+    on("add-piano-note", (data) => {
+      const { roomId, patternId, note } = data;
+      const seat = getSeat("add-piano-note", roomId);
+      if (!seat || rejectOutOfTurn("add-piano-note", seat.room, seat.player)) {
+        return;
+      }
 
-        const player = room.players.get(socket.id);
-        if (!player) return;
-
-        if (
-          room.turn.isActive &&
-          player.playerNumber !== room.turn.currentPlayer
-        ) {
-          socket.emit("not-your-turn", {
-            currentPlayer: room.turn.currentPlayer,
-            yourPlayer: player.playerNumber,
-          });
-          return;
-        }
+      const { room } = seat;
+      const pattern = getPattern(room, patternId);
+      if (!pattern) {
+        reject("add-piano-note", "not-found", "That pattern no longer exists");
+        return;
+      }
+
+      // Ids come from the adding client so it can edit the note right away
+      if (
+        pattern.pianoNotes.some((other) => other.id === note.id) ||
+        !canPlacePianoNote(room, pattern, note)
+      ) {
+        reject("add-piano-note", "invalid-value", "The note doesn't fit there");
+        return;
+      }
+      if (rejectRule("add-piano-note", checkInstrument(room, "piano", true))) {
+        return;
+      }
+
+      record(room, "add-piano-note");
+      const added: PianoNote = {
+        id: note.id,
+        noteIndex: note.noteIndex,
+        start: note.start,
+        duration: note.duration,
+        velocity:
+          note.velocity === undefined
+            ? DEFAULT_VELOCITY
+            : Math.max(0, Math.min(1, note.velocity)),
+        ownerId: seat.player.id,
+      };
+      pattern.pianoNotes.push(added);
+      room.turn.notesAdded += 1;
+      countNotes(room, seat.player, { added: 1, instrument: "piano" });
+
+      socket.to(roomId).emit("piano-note-added", {
+        patternId,
+        note: added,
+        playerId: socket.id,
+      });
+    });
+
+    on("remove-piano-note", (data) => {
+      const { roomId, patternId, noteId } = data;
+      const seat = getSeat("remove-piano-note", roomId);
+      if (
+        !seat ||
+        rejectOutOfTurn("remove-piano-note", seat.room, seat.player)
+      ) {
+        return;
+      }
+
+      const pattern = getPattern(seat.room, patternId);
+      const index =
+        pattern?.pianoNotes.findIndex((note) => note.id === noteId) ?? -1;
+      if (!pattern || index === -1) {
+        reject("remove-piano-note", "not-found", "That note no longer exists");
+        return;
+      }
+      if (
+        rejectRule(
+          "remove-piano-note",
+          checkInstrument(seat.room, "piano") ??
+            checkRemoval(
+              seat.room,
+              seat.player,
+              pattern.pianoNotes[index].ownerId,
+            ),
+        )
+      ) {
+        return;
+      }
+      record(seat.room, "remove-piano-note");
+      pattern.pianoNotes.splice(index, 1);
+      countNotes(seat.room, seat.player, { removed: 1 });
+
+      socket.to(roomId).emit("piano-note-removed", {
+        patternId,
+        noteId,
+        playerId: socket.id,
+      });
+    });
+
+    on("resize-piano-note", (data) => {
+      const { roomId, patternId, noteId, duration } = data;
+      const seat = getSeat("resize-piano-note", roomId);
+      if (
+        !seat ||
+        rejectOutOfTurn("resize-piano-note", seat.room, seat.player)
+      ) {
+        return;
+      }
+
+      const { room } = seat;
+      const pattern = getPattern(room, patternId);
+      const note = pattern?.pianoNotes.find((n) => n.id === noteId);
+      if (!pattern || !note) {
+        reject("resize-piano-note", "not-found", "That note no longer exists");
+        return;
+      }
+      if (rejectRule("resize-piano-note", checkInstrument(room, "piano"))) {
+        return;
+      }
+
+      if (!canPlacePianoNote(room, pattern, { ...note, duration }, noteId)) {
+        reject(
+          "resize-piano-note",
+          "invalid-value",
+          "The note doesn't fit at that length",
+        );
+        return;
+      }
+      record(room, "resize-piano-note", `${patternId}:${noteId}`);
+      note.duration = duration;
+
+      socket.to(roomId).emit("piano-note-resized", {
+        patternId,
+        noteId,
+        duration,
+        playerId: socket.id,
+      });
+    });
+
+    on("set-piano-velocity", (data) => {
+      const { roomId, patternId, noteId } = data;
+      const seat = getSeat("set-piano-velocity", roomId);
+      if (
+        !seat ||
+        rejectOutOfTurn("set-piano-velocity", seat.room, seat.player)
+      ) {
+        return;
+      }
+
+      const note = getPattern(seat.room, patternId)?.pianoNotes.find(
+        (n) => n.id === noteId,
+      );
+      if (!note) {
+        reject("set-piano-velocity", "not-found", "That note no longer exists");
+        return;
+      }
+      if (
+        rejectRule("set-piano-velocity", checkInstrument(seat.room, "piano"))
+      ) {
+        return;
+      }
+
+      record(seat.room, "set-piano-velocity", `${patternId}:${noteId}`);
+      note.velocity = Math.max(0, Math.min(1, data.velocity));
+
+      socket.to(roomId).emit("piano-velocity-changed", {
+        patternId,
+        noteId,
+        velocity: note.velocity,
+        playerId: socket.id,
+      });
+    });
+
+    on("add-pattern", (data) => {
+      const { roomId, patternId, sourceId } = data;
+      const seat = getSeat("add-pattern", roomId);
+      if (!seat || rejectOutOfTurn("add-pattern", seat.room, seat.player)) {
+        return;
+      }
+
+      const { room } = seat;
+      if (room.patterns.length >= MAX_PATTERNS) {
+        reject(
+          "add-pattern",
+          "limit-reached",
+          `A room can hold up to ${MAX_PATTERNS} patterns`,
+        );
+        return;
+      }
+
+      const name = parsePatternName(data.name);
+      if (getPattern(room, patternId) || !name) {
+        reject("add-pattern", "invalid-value", "Couldn't add that pattern");
+        return;
+      }
 
-        const stepNotes = new Set(room.pianoSteps.get(stepIndex) || []);
-        if (stepNotes.has(noteIndex)) {
-          stepNotes.delete(noteIndex);
-          if (stepNotes.size === 0) {
-            room.pianoSteps.delete(stepIndex);
-          } else {
-            room.pianoSteps.set(stepIndex, stepNotes);
+      // Duplicating copies the source's notes, otherwise start empty
+      const source = sourceId ? getPattern(room, sourceId) : undefined;
+      if (sourceId && !source) {
+        reject("add-pattern", "not-found", "That pattern no longer exists");
+        return;
+      }
+      const pattern = source
+        ? {
+            id: patternId,
+            name,
+            steps: source.steps.map((row) => row.map((step) => ({ ...step }))),
+            pianoNotes: source.pianoNotes.map((note) => ({ ...note })),
           }
-        } else {
-          stepNotes.add(noteIndex);
-          room.pianoSteps.set(stepIndex, stepNotes);
-        }
+        : createPattern(patternId, name, room.stepCount);
+      record(room, "add-pattern");
+      room.patterns.push(pattern);
 
-        socket.to(roomId).emit("piano-note-toggled", {
-          stepIndex,
-          noteIndex,
-          active: stepNotes.has(noteIndex),
-          playerId: socket.id,
-        });
-      },
+      socket.to(roomId).emit("pattern-added", {
+        pattern,
+        playerId: socket.id,
+      });
+    });
+
+    on("rename-pattern", (data) => {
+      const { roomId, patternId } = data;
+      const seat = getSeat("rename-pattern", roomId);
+      if (!seat || rejectOutOfTurn("rename-pattern", seat.room, seat.player)) {
+        return;
+      }
+
+      const pattern = getPattern(seat.room, patternId);
+      if (!pattern) {
+        reject("rename-pattern", "not-found", "That pattern no longer exists");
+        return;
+      }
+      const name = parsePatternName(data.name);
+      if (!name) {
+        reject(
+          "rename-pattern",
+          "invalid-value",
+          "Pattern names can't be empty",
+        );
+        return;
+      }
+
+      record(seat.room, "rename-pattern", patternId);
+      pattern.name = name;
+      socket.to(roomId).emit("pattern-renamed", {
+        patternId,
+        name,
+        playerId: socket.id,
+      });
+    });
+
+    on("delete-pattern", (data) => {
+      const { roomId, patternId } = data;
+      const seat = getSeat("delete-pattern", roomId);
+      if (!seat || rejectOutOfTurn("delete-pattern", seat.room, seat.player)) {
+        return;
+      }
+
+      const { room } = seat;
+      const pattern = getPattern(room, patternId);
+      if (!pattern) {
+        reject("delete-pattern", "not-found", "That pattern no longer exists");
+        return;
+      }
+      if (
+        rejectRule(
+          "delete-pattern",
+          checkPatternWipe(room, seat.player, pattern),
+        )
+      ) {
+        return;
+      }
+      // A room always keeps at least one pattern to edit
+      if (room.patterns.length <= 1) {
+        reject(
+          "delete-pattern",
+          "limit-reached",
+          "The last pattern can't be deleted",
+        );
+        return;
+      }
+
+      record(room, "delete-pattern");
+      room.patterns = room.patterns.filter((p) => p.id !== patternId);
+      room.arrangement = room.arrangement.filter(
+        (entry) => entry.patternId !== patternId,
+      );
+
+      socket.to(roomId).emit("pattern-deleted", {
+        patternId,
+        arrangement: room.arrangement,
+        playerId: socket.id,
+      });
+    });
+
+    on("set-arrangement", (data) => {
+      const { roomId } = data;
+      const seat = getSeat("set-arrangement", roomId);
+      if (!seat || rejectOutOfTurn("set-arrangement", seat.room, seat.player)) {
+        return;
+      }
+
+      const { room } = seat;
+      const arrangement = parseArrangement(room, data.arrangement);
+      if (!arrangement) {
+        reject(
+          "set-arrangement",
+          "invalid-value",
+          "The song refers to missing patterns or is too long",
+        );
+        return;
+      }
+      record(room, "set-arrangement");
+      room.arrangement = arrangement;
+
+      socket.to(roomId).emit("arrangement-changed", {
+        arrangement,
+        playerId: socket.id,
+      });
+    });
+
+    on("undo", (data) => stepHistory("undo", data.roomId, undoEdit));
+    on("redo", (data) => stepHistory("redo", data.roomId, redoEdit));
+
+    // Clients apply their edits right away, so one the server turned down
+    // has to be swapped back for the room's beat
+    on("request-beat", (data) => {
+      const seat = getSeat("request-beat", data.roomId);
+      if (!seat) return;
+
+      const { room } = seat;
+      socket.emit("beat-synced", {
+        stepCount: room.stepCount,
+        resolution: room.resolution,
+        patterns: room.patterns,
+        arrangement: room.arrangement,
+        notesAdded: room.turn.notesAdded,
+      });
+    });
+
+    // Any player can drive playback, whoever's turn it is. Everyone,
+    // sender included, starts on the server's cue.
+    const moveTransport = (
+      event: "transport-play" | "transport-stop" | "transport-seek",
+      roomId: string,
+      step: number,
+      isPlaying?: boolean,
+    ) => {
+      const seat = getSeat(event, roomId);
+      if (!seat) return;
+
+      const { room } = seat;
+      setTransport(room, isPlaying ?? room.transport.isPlaying, step);
+      io.to(roomId).emit("transport-changed", {
+        ...room.transport,
+        playerId: socket.id,
+      });
+    };
+
+    on("transport-play", (data) =>
+      moveTransport("transport-play", data.roomId, data.step, true),
+    );
+    on("transport-stop", (data) =>
+      moveTransport("transport-stop", data.roomId, data.step, false),
+    );
+    // Seeking keeps playing if it was
+    on("transport-seek", (data) =>
+      moveTransport("transport-seek", data.roomId, data.step),
     );
 
+    // Answered straight away; the client works out its offset from the
+    // round trip
+    on("clock-ping", (data) => {
+      socket.emit("clock-pong", {
+        clientTime: data.clientTime,
+        serverTime: Date.now(),
+      });
+    });
+
+    // Volatile both ways: a position that can't go out right away is
+    // already stale, and it never holds up real edits
+    on("set-presence", (data) => {
+      const { roomId, panel, cell } = data;
+      const seat = getSeat("set-presence", roomId);
+      if (!seat) return;
+
+      socket.to(roomId).volatile.emit("presence-changed", {
+        playerId: seat.player.id,
+        presence: { panel, cell },
+      });
+    });
+
+    on("send-chat", (data) => {
+      const { roomId, text } = data;
+      const seat = getSeat("send-chat", roomId);
+      if (!seat) return;
+
+      if (!takeSend(socket.id, "chat", CHAT_RATE_LIMIT)) {
+        reject("send-chat", "rate-limited", "You're sending messages too fast");
+        return;
+      }
+      io.to(roomId).emit("chat-message", {
+        message: addChatMessage(seat.room, seat.player, text),
+      });
+    });
+
+    // Reactions are gone a moment later, so nothing is kept
+    on("send-reaction", (data) => {
+      const { roomId, emoji } = data;
+      const seat = getSeat("send-reaction", roomId);
+      if (!seat) return;
+
+      if (!takeSend(socket.id, "reaction", REACTION_RATE_LIMIT)) {
+        reject("send-reaction", "rate-limited", "Slow down with the reactions");
+        return;
+      }
+      io.to(roomId).volatile.emit("reaction", {
+        id: randomUUID(),
+        playerId: seat.player.id,
+        emoji,
+      });
+    });
+
+    on("create-invite", (data) => {
+      const seat = getSeat("create-invite", data.roomId);
+      if (!seat) return;
+
+      socket.emit("invite-created", createInvite(seat.room));
+    });
+
+    on("request-restore", (data) => {
+      const { roomId, snapshotId } = data;
+      const seat = getSeat("request-restore", roomId);
+      if (!seat) return;
+
+      const { room, player } = seat;
+      // A finished game's beat stays as it is until a reset
+      if (room.turn.isFinished) {
+        reject("request-restore", "game-over", "The game is over");
+        return;
+      }
+      if (room.turn.isActive) {
+        reject(
+          "request-restore",
+          "turn-in-progress",
+          "Snapshots can only be restored between turns",
+        );
+        return;
+      }
+      if (!getSnapshot(room, snapshotId)) {
+        reject(
+          "request-restore",
+          "not-found",
+          "That snapshot no longer exists",
+        );
+        return;
+      }
+      if (room.restoreProposal) {
+        reject(
+          "request-restore",
+          "invalid-value",
+          "Another restore is still waiting for an answer",
+        );
+        return;
+      }
+
+      room.restoreProposal = { snapshotId, approvals: [player.id] };
+      settleRestore(room);
+    });
+
+    on("answer-restore", (data) => {
+      const { roomId, snapshotId, accept } = data;
+      const seat = getSeat("answer-restore", roomId);
+      if (!seat) return;
+
+      const { room, player } = seat;
+      if (room.turn.isFinished) {
+        reject("answer-restore", "game-over", "The game is over");
+        return;
+      }
+      const proposal = room.restoreProposal;
+      if (proposal?.snapshotId !== snapshotId) {
+        reject(
+          "answer-restore",
+          "not-found",
+          "That restore request is no longer open",
+        );
+        return;
+      }
+
+      // A single no, including the asker's own, calls the whole thing off
+      if (!accept) {
+        room.restoreProposal = null;
+        io.to(roomId).emit("restore-proposal-changed", { proposal: null });
+        return;
+      }
+      if (!proposal.approvals.includes(player.id)) {
+        proposal.approvals.push(player.id);
+      }
+      settleRestore(room);
+    });
+
     socket.on("disconnect", () => {
       console.log(`Client disconnected: ${socket.id}`);
+      forgetSends(socket.id);
 
       for (const [roomId, room] of rooms.entries()) {
-        if (room.players.has(socket.id)) {
-          room.players.delete(socket.id);
-          socket.to(roomId).emit("player-left", { playerId: socket.id });
+        const spectator = room.spectators.get(socket.id);
+        if (spectator) {
+          room.spectators.delete(socket.id);
+          socket.to(roomId).emit("spectator-left", {
+            spectatorId: spectator.id,
+          });
+          if (isRoomEmpty(room)) expireIfEmpty(room);
+          continue;
+        }
 
-          if (isRoomEmpty(room)) {
-            deleteRoom(roomId);
-            console.log(`Room ${roomId} deleted (empty)`);
+        const player = room.players.get(socket.id);
+        if (!player) continue;
+
+        // Hold the seat so a refresh or dropped connection can rejoin
+        socket.to(roomId).emit("player-disconnected", { playerId: player.id });
+        holdSeat(room, player, () => {
+          // Their seat is gone, so the turn moves on without them. That
+          // happens while they're still in the order, so the next player
+          // is the one after their place in it.
+          if (room.turn.currentPlayer === player.playerNumber) {
+            endTurn(io, room);
           }
-        }
+
+          room.turn.order = room.turn.order.filter(
+            (n) => n !== player.playerNumber,
+          );
+          io.to(roomId).emit("player-left", {
+            playerId: player.id,
+            order: room.turn.order,
+          });
+          if (isRoomEmpty(room)) expireIfEmpty(room);
+          settleRestore(room);
+        });
+        // Nobody waits on a rating or a restore answer from a player who
+        // isn't there
+        settleVote(io, room);
+        settleRestore(room);
       }
     });
   });
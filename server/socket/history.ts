@@ -0,0 +1,124 @@
+import type { BeatState, ClientEvent, HistoryState, Room } from "./types";
+
+// Oldest edits fall off the log past this many
+const MAX_HISTORY = 100;
+
+interface HistoryEntry {
+  event: ClientEvent;
+  // What the edit changed, e.g. one step's velocity
+  target?: string;
+  // The beat as it was before the edit
+  beat: BeatState;
+  // The turn's note count too, so undoing an added note gives it back
+  notesAdded: number;
+}
+
+interface TurnHistory {
+  undo: HistoryEntry[];
+  redo: HistoryEntry[];
+}
+
+// Edits made during each room's running turn, keyed by room id. Cleared
+// whenever a turn starts or ends, so undo never reaches an earlier turn.
+const histories = new Map<string, TurnHistory>();
+
+export function getBeat(room: Room): BeatState {
+  return structuredClone({
+    stepCount: room.stepCount,
+    resolution: room.resolution,
+    patterns: room.patterns,
+    arrangement: room.arrangement,
+  });
+}
+
+export function setBeat(room: Room, beat: BeatState): void {
+  room.stepCount = beat.stepCount;
+  room.resolution = beat.resolution;
+  room.patterns = beat.patterns;
+  room.arrangement = beat.arrangement;
+}
+
+export function getHistoryState(roomId: string): HistoryState {
+  const history = histories.get(roomId);
+  return {
+    canUndo: (history?.undo.length ?? 0) > 0,
+    canRedo: (history?.redo.length ?? 0) > 0,
+  };
+}
+
+export function clearHistory(roomId: string): void {
+  histories.delete(roomId);
+}
+
+/**
+ * Remember the beat before an edit made during a turn. Call it once the edit
+ * is known to go through, right before changing the room. Back-to-back edits
+ * of the same `target`, like the events of one velocity drag, undo together.
+ * Returns false outside a turn, where nothing is recorded.
+ */
+export function recordEdit(
+  room: Room,
+  event: ClientEvent,
+  target?: string,
+): boolean {
+  if (!room.turn.isActive) return false;
+
+  const history = histories.get(room.id) ?? { undo: [], redo: [] };
+  const last = history.undo.at(-1);
+  const continues =
+    target !== undefined &&
+    history.redo.length === 0 &&
+    last?.event === event &&
+    last.target === target;
+  if (!continues) {
+    history.undo.push({
+      event,
+      target,
+      beat: getBeat(room),
+      notesAdded: room.turn.notesAdded,
+    });
+    if (history.undo.length > MAX_HISTORY) history.undo.shift();
+  }
+  // A new edit branches off, so the undone ones can't come back
+  history.redo = [];
+  histories.set(room.id, history);
+  return true;
+}
+
+/**
+ * Put the beat back to how it was before the last edit of this turn.
+ * Returns false if there is nothing to undo.
+ */
+export function undoEdit(room: Room): boolean {
+  const history = histories.get(room.id);
+  const entry = history?.undo.pop();
+  if (!history || !entry) return false;
+
+  history.redo.push({
+    event: entry.event,
+    beat: getBeat(room),
+    notesAdded: room.turn.notesAdded,
+  });
+  setBeat(room, entry.beat);
+  room.turn.notesAdded = entry.notesAdded;
+  return true;
+}
+
+/**
+ * Apply the last undone edit again. Returns false if there is nothing to
+ * redo.
+ */
+export function redoEdit(room: Room): boolean {
+  const history = histories.get(room.id);
+  const entry = history?.redo.pop();
+  if (!history || !entry) return false;
+
+  history.undo.push({
+    event: entry.event,
+    beat: getBeat(room),
+    notesAdded: room.turn.notesAdded,
+  });
+  setBeat(room, entry.beat);
+  room.turn.notesAdded = entry.notesAdded;
+  return true;
+}
@@ -1,4 +1,18 @@
+export { createInvite } from "./access";
 export { setupSocketHandlers } from "./handlers";
-export { createEmptySteps, getRoom, rooms } from "./rooms";
-export type { Player, Room, TurnState } from "./types";
-export { DEFAULT_BPM, INSTRUMENTS, STEPS, TURN_DURATION } from "./types";
+export { saveRoom } from "./persistence";
+export {
+  createRoom,
+  getPlayerBySession,
+  getRoomSummaries,
+  loadRooms,
+  rooms,
+} from "./rooms";
+export { checkInstrument } from "./rules";
+export { checkTurn } from "./turns";
+export type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  TypedServer,
+} from "./types";
+export { createRoomValidator, INSTRUMENTS } from "./types";
@@ -0,0 +1,67 @@
+import type { RoomStorage, StoredRoom } from "./storage";
+import { createFileStorage, createMemoryStorage } from "./storage";
+import type { Room } from "./types";
+
+// Changes within this window are written together
+const SAVE_DELAY = 500;
+
+export const storage: RoomStorage =
+  process.env.ROOM_STORAGE === "memory"
+    ? createMemoryStorage()
+    : createFileStorage();
+
+const pendingSaves = new Map<string, ReturnType<typeof setTimeout>>();
+
+function toStoredRoom(room: Room): StoredRoom {
+  return {
+    id: room.id,
+    maxPlayers: room.maxPlayers,
+    stepCount: room.stepCount,
+    resolution: room.resolution,
+    turnDuration: room.turnDuration,
+    bpmRange: room.bpmRange,
+    visibility: room.visibility,
+    inviteOnly: room.inviteOnly,
+    passwordHash: room.passwordHash,
+    invites: room.invites,
+    patterns: room.patterns,
+    arrangement: room.arrangement,
+    bpm: room.bpm,
+    kit: room.kit,
+    synth: room.synth,
+    mixer: room.mixer,
+    effects: room.effects,
+    samples: room.samples,
+    turn: { round: room.turn.round, isFinished: room.turn.isFinished },
+    snapshots: room.snapshots,
+    game: room.game,
+    rules: room.rules,
+    stats: room.stats,
+    updatedAt: Date.now(),
+  };
+}
+
+/**
+ * Queue a write of the room's current state. Repeated calls before the
+ * write happens are folded into one.
+ */
+export function saveRoom(room: Room): void {
+  if (pendingSaves.has(room.id)) return;
+  pendingSaves.set(
+    room.id,
+    setTimeout(() => {
+      pendingSaves.delete(room.id);
+      storage
+        .save(toStoredRoom(room))
+        .catch((e) => console.error(`Failed to save room ${room.id}:`, e));
+    }, SAVE_DELAY),
+  );
+}
+
+export function forgetRoom(roomId: string): void {
+  clearTimeout(pendingSaves.get(roomId));
+  pendingSaves.delete(roomId);
+  storage
+    .delete(roomId)
+    .catch((e) => console.error(`Failed to delete room ${roomId}:`, e));
+}
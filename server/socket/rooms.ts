@@ -1,51 +1,563 @@
-import type { Player, Room } from "./types";
-import { DEFAULT_BPM, INSTRUMENTS, STEPS, TURN_DURATION } from "./types";
+import { randomInt, randomUUID } from "node:crypto";
+
+import { hashPassword } from "./access";
+import { clearHistory } from "./history";
+import { forgetRoom, saveRoom, storage } from "./persistence";
+import { deleteRoomSamples, isSafeSegment } from "./samples";
+import type { StoredRoom } from "./storage";
+import { stopTurnTimer } from "./turns";
+import type {
+  ArrangementEntry,
+  BpmRange,
+  LegacyPianoSteps,
+  Pattern,
+  PatternSettings,
+  PianoNote,
+  Player,
+  Room,
+  RoomSettings,
+  RoomSummary,
+  Step,
+} from "./types";
+import {
+  createDefaultEffects,
+  createDefaultMixer,
+  DEFAULT_BPM,
+  DEFAULT_BPM_RANGE,
+  DEFAULT_GAME,
+  DEFAULT_KIT,
+  DEFAULT_MAX_PLAYERS,
+  DEFAULT_RESOLUTION,
+  DEFAULT_RULES,
+  DEFAULT_STEP_COUNT,
+  DEFAULT_SYNTH,
+  DEFAULT_TURN_DURATION,
+  DEFAULT_VELOCITY,
+  DEFAULT_VISIBILITY,
+  DRUM_KITS,
+  INSTRUMENTS,
+  MAX_ARRANGEMENT_LENGTH,
+  MAX_PATTERN_NAME_LENGTH,
+  MAX_PLAYERS,
+  MAX_REPEATS,
+  MIN_PLAYERS,
+  RECONNECT_GRACE_PERIOD,
+  ROOM_CODE_ALPHABET,
+  ROOM_CODE_LENGTH,
+  STEP_COUNTS,
+  STEP_RESOLUTIONS,
+  TURN_DURATIONS,
+} from "./types";
 
 export const rooms = new Map<string, Room>();
 
-export function createEmptySteps(): boolean[][] {
-  return INSTRUMENTS.map(() => Array(STEPS).fill(false));
-}
-
-export function getRoom(roomId: string): Room | undefined {
-  if (!rooms.has(roomId)) {
-    rooms.set(roomId, {
-      id: roomId,
-      players: new Map(),
-      steps: createEmptySteps(),
-      pianoSteps: new Map(),
-      bpm: DEFAULT_BPM,
-      turn: {
-        currentPlayer: 1,
-        timeRemaining: TURN_DURATION,
-        isActive: false,
-        round: 1,
-      },
-    });
+// Saved rooms nobody has touched for this long are dropped on boot
+const STORED_ROOM_TTL = 7 * 24 * 60 * 60 * 1000;
+
+// A new room nobody has joined within this long is dropped
+const UNCLAIMED_ROOM_TTL = 10 * 60 * 1000;
+
+// A room everyone has left stays open, and saved, this long in case they
+// come back
+const EMPTY_ROOM_TTL = 60 * 60 * 1000;
+
+// Rooms saved before patterns existed kept a single grid at the top level
+interface LegacyStoredRoom {
+  // Plain on/off cells from before steps had a velocity
+  steps?: (Step | boolean)[][];
+  pianoNotes?: PianoNote[];
+  pianoSteps?: LegacyPianoSteps;
+}
+
+// Pending seat releases for disconnected players, keyed by player id
+const seatReleases = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Pending deletions of empty rooms, keyed by room id
+const roomExpiries = new Map<string, ReturnType<typeof setTimeout>>();
+
+function createEmptyStep(): Step {
+  return { active: false, velocity: DEFAULT_VELOCITY };
+}
+
+export function createEmptySteps(stepCount = DEFAULT_STEP_COUNT): Step[][] {
+  return INSTRUMENTS.map(() =>
+    Array.from({ length: stepCount }, createEmptyStep),
+  );
+}
+
+export function createPattern(
+  id: string,
+  name: string,
+  stepCount = DEFAULT_STEP_COUNT,
+): Pattern {
+  return { id, name, steps: createEmptySteps(stepCount), pianoNotes: [] };
+}
+
+export function getPattern(room: Room, patternId: string): Pattern | undefined {
+  return room.patterns.find((pattern) => pattern.id === patternId);
+}
+
+export function parsePatternName(name: unknown): string | null {
+  if (typeof name !== "string") return null;
+  const trimmed = name.trim().slice(0, MAX_PATTERN_NAME_LENGTH);
+  return trimmed || null;
+}
+
+/**
+ * Validate a client-supplied song timeline against the room's patterns.
+ * Returns null if any entry is unusable.
+ */
+export function parseArrangement(
+  room: Room,
+  arrangement: unknown,
+): ArrangementEntry[] | null {
+  if (
+    !Array.isArray(arrangement) ||
+    arrangement.length > MAX_ARRANGEMENT_LENGTH
+  ) {
+    return null;
+  }
+  const entries: ArrangementEntry[] = [];
+  for (const entry of arrangement) {
+    const { patternId, repeats } = entry ?? {};
+    if (
+      !getPattern(room, patternId) ||
+      !Number.isInteger(repeats) ||
+      repeats < 1 ||
+      repeats > MAX_REPEATS
+    ) {
+      return null;
+    }
+    entries.push({ patternId, repeats });
+  }
+  return entries;
+}
+
+/**
+ * Convert single-step piano notes from the old per-step format into
+ * one-step-long notes, e.g. for rooms saved before notes had lengths.
+ */
+export function migratePianoSteps(legacy: LegacyPianoSteps): PianoNote[] {
+  return legacy.flatMap(([start, notes]) =>
+    notes.map((entry) => {
+      const [noteIndex, velocity] =
+        typeof entry === "number" ? [entry, DEFAULT_VELOCITY] : entry;
+      return { id: randomUUID(), noteIndex, start, duration: 1, velocity };
+    }),
+  );
+}
+
+/**
+ * Whether a note lies inside the pattern without overlapping another note
+ * of the same pitch. `ignoreId` skips the note being resized.
+ */
+export function canPlacePianoNote(
+  room: Room,
+  pattern: Pattern,
+  note: Pick<PianoNote, "noteIndex" | "start" | "duration">,
+  ignoreId?: string,
+): boolean {
+  const { noteIndex, start, duration } = note;
+  if (
+    !Number.isInteger(start) ||
+    !Number.isInteger(duration) ||
+    start < 0 ||
+    duration < 1 ||
+    start + duration > room.stepCount
+  ) {
+    return false;
+  }
+  return pattern.pianoNotes.every(
+    (other) =>
+      other.id === ignoreId ||
+      other.noteIndex !== noteIndex ||
+      other.start >= start + duration ||
+      other.start + other.duration <= start,
+  );
+}
+
+/**
+ * Validate client-supplied pattern settings, falling back to defaults.
+ */
+export function parsePatternSettings(
+  settings?: Partial<PatternSettings>,
+): PatternSettings {
+  const stepCount = settings?.stepCount;
+  const resolution = settings?.resolution;
+  return {
+    stepCount:
+      stepCount !== undefined && STEP_COUNTS.includes(stepCount)
+        ? stepCount
+        : DEFAULT_STEP_COUNT,
+    resolution:
+      resolution !== undefined && STEP_RESOLUTIONS.includes(resolution)
+        ? resolution
+        : DEFAULT_RESOLUTION,
+  };
+}
+
+/**
+ * Change the length of every pattern in a room, keeping each note that
+ * still fits.
+ */
+export function resizePatterns(room: Room, stepCount: number): void {
+  for (const pattern of room.patterns) {
+    pattern.steps = pattern.steps.map((row) =>
+      Array.from({ length: stepCount }, (_, i) => row[i] ?? createEmptyStep()),
+    );
+    // Notes that start past the end are dropped, longer ones are shortened
+    pattern.pianoNotes = pattern.pianoNotes
+      .filter((note) => note.start < stepCount)
+      .map((note) => ({
+        ...note,
+        duration: Math.min(note.duration, stepCount - note.start),
+      }));
+  }
+  room.stepCount = stepCount;
+}
+
+export function isDrumKit(kit: string): boolean {
+  return DRUM_KITS.some(({ id }) => id === kit);
+}
+
+export function parseMaxPlayers(maxPlayers: unknown): number {
+  return Number.isInteger(maxPlayers) &&
+    (maxPlayers as number) >= MIN_PLAYERS &&
+    (maxPlayers as number) <= MAX_PLAYERS
+    ? (maxPlayers as number)
+    : DEFAULT_MAX_PLAYERS;
+}
+
+/**
+ * Validate client-supplied room settings, falling back to defaults for
+ * anything unsupported.
+ */
+export function parseRoomSettings(
+  settings?: Partial<RoomSettings>,
+): RoomSettings {
+  const turnDuration = settings?.turnDuration;
+  const bpmRange = settings?.bpmRange;
+  const kit = settings?.kit;
+  return {
+    ...parsePatternSettings(settings),
+    maxPlayers: parseMaxPlayers(settings?.maxPlayers),
+    turnDuration:
+      turnDuration !== undefined && TURN_DURATIONS.includes(turnDuration)
+        ? turnDuration
+        : DEFAULT_TURN_DURATION,
+    rounds: settings?.rounds ?? null,
+    // An empty or backwards range leaves nothing to pick from
+    bpmRange:
+      bpmRange && bpmRange.min < bpmRange.max
+        ? { min: bpmRange.min, max: bpmRange.max }
+        : { ...DEFAULT_BPM_RANGE },
+    kit: kit !== undefined && isDrumKit(kit) ? kit : DEFAULT_KIT,
+    visibility: settings?.visibility ?? DEFAULT_VISIBILITY,
+    inviteOnly: settings?.inviteOnly ?? false,
+  };
+}
+
+// A code no open or saved room is using
+export function createRoomCode(): string {
+  let code: string;
+  do {
+    code = Array.from(
+      { length: ROOM_CODE_LENGTH },
+      () => ROOM_CODE_ALPHABET[randomInt(ROOM_CODE_ALPHABET.length)],
+    ).join("");
+  } while (rooms.has(code));
+  return code;
+}
+
+export function createRoom(
+  settings?: Partial<RoomSettings>,
+  password?: string,
+): Room {
+  const {
+    maxPlayers,
+    stepCount,
+    resolution,
+    turnDuration,
+    rounds,
+    bpmRange,
+    kit,
+    visibility,
+    inviteOnly,
+  } = parseRoomSettings(settings);
+  const room: Room = {
+    id: createRoomCode(),
+    maxPlayers,
+    players: new Map(),
+    sessions: new Map(),
+    spectators: new Map(),
+    stepCount,
+    resolution,
+    turnDuration,
+    bpmRange,
+    visibility,
+    inviteOnly,
+    passwordHash: password ? hashPassword(password) : null,
+    invites: {},
+    patterns: [createPattern(randomUUID(), "A", stepCount)],
+    arrangement: [],
+    bpm: clampBpm(DEFAULT_BPM, bpmRange),
+    kit,
+    synth: { ...DEFAULT_SYNTH },
+    mixer: createDefaultMixer(),
+    effects: createDefaultEffects(),
+    samples: {},
+    turn: {
+      currentPlayer: 1,
+      order: [],
+      timeRemaining: turnDuration,
+      deadline: null,
+      isActive: false,
+      isFinished: false,
+      assignment: null,
+      notesAdded: 0,
+      round: 1,
+    },
+    game: rounds === null ? { ...DEFAULT_GAME } : { mode: "rounds", rounds },
+    rules: { ...DEFAULT_RULES },
+    stats: {},
+    vote: null,
+    transport: { isPlaying: false, step: 0, startAt: null },
+    snapshots: [],
+    restoreProposal: null,
+    chat: [],
+  };
+  rooms.set(room.id, room);
+  saveRoom(room);
+  expireIfEmpty(room, UNCLAIMED_ROOM_TTL);
+  return room;
+}
+
+export function clampBpm(bpm: number, range: BpmRange): number {
+  return Math.max(range.min, Math.min(range.max, bpm));
+}
+
+// Public rooms whose game is still going and that don't need an invite,
+// for the home page
+export function getRoomSummaries(): RoomSummary[] {
+  return Array.from(rooms.values())
+    .filter(
+      (room) =>
+        room.visibility === "public" &&
+        !room.inviteOnly &&
+        !room.turn.isFinished,
+    )
+    .map((room) => ({
+      id: room.id,
+      players: room.players.size,
+      maxPlayers: room.maxPlayers,
+      round: room.turn.round,
+      isActive: room.turn.isActive,
+      hasPassword: room.passwordHash !== null,
+    }));
+}
+
+/**
+ * Rebuild a room from storage. Seats start empty since no sockets survive a
+ * restart; whoever rejoins first takes seat 1.
+ */
+function restoreRoom(
+  stored: Partial<StoredRoom> & LegacyStoredRoom,
+): Room | null {
+  if (typeof stored.id !== "string" || !isSafeSegment(stored.id)) return null;
+
+  const { stepCount, resolution } = parsePatternSettings(stored);
+  const turnDuration = stored.turnDuration ?? DEFAULT_TURN_DURATION;
+  const patterns = stored.patterns?.length
+    ? stored.patterns
+    : [
+        {
+          ...createPattern(randomUUID(), "A", stepCount),
+          ...(stored.steps && {
+            steps: stored.steps.map((row) =>
+              row.map((step) =>
+                typeof step === "boolean"
+                  ? { active: step, velocity: DEFAULT_VELOCITY }
+                  : step,
+              ),
+            ),
+          }),
+          pianoNotes:
+            stored.pianoNotes ??
+            (stored.pianoSteps ? migratePianoSteps(stored.pianoSteps) : []),
+        },
+      ];
+
+  const room: Room = {
+    id: stored.id,
+    maxPlayers: parseMaxPlayers(stored.maxPlayers),
+    players: new Map(),
+    sessions: new Map(),
+    spectators: new Map(),
+    stepCount,
+    resolution,
+    turnDuration,
+    bpmRange: stored.bpmRange ?? { ...DEFAULT_BPM_RANGE },
+    visibility: stored.visibility ?? DEFAULT_VISIBILITY,
+    inviteOnly: stored.inviteOnly ?? false,
+    passwordHash: stored.passwordHash ?? null,
+    invites: stored.invites ?? {},
+    patterns,
+    arrangement: stored.arrangement ?? [],
+    bpm: stored.bpm ?? DEFAULT_BPM,
+    kit: stored.kit ?? DEFAULT_KIT,
+    synth: { ...DEFAULT_SYNTH, ...stored.synth },
+    mixer: stored.mixer ?? createDefaultMixer(),
+    effects: stored.effects ?? createDefaultEffects(),
+    samples: stored.samples ?? {},
+    turn: {
+      currentPlayer: 1,
+      order: [],
+      timeRemaining: turnDuration,
+      deadline: null,
+      isActive: false,
+      isFinished: stored.turn?.isFinished ?? false,
+      assignment: null,
+      notesAdded: 0,
+      round: stored.turn?.round ?? 1,
+    },
+    game: { ...DEFAULT_GAME, ...stored.game },
+    rules: { ...DEFAULT_RULES, ...stored.rules },
+    stats: stored.stats ?? {},
+    vote: null,
+    transport: { isPlaying: false, step: 0, startAt: null },
+    snapshots: stored.snapshots ?? [],
+    restoreProposal: null,
+    chat: [],
+  };
+  // Line every grid up with the saved step count
+  resizePatterns(room, stepCount);
+  return room;
+}
+
+export async function loadRooms(): Promise<void> {
+  const now = Date.now();
+  for (const stored of (await storage.loadAll()) as (Partial<StoredRoom> &
+    LegacyStoredRoom)[]) {
+    const room = restoreRoom(stored);
+    if (!room) continue;
+    if (now - (stored.updatedAt ?? 0) > STORED_ROOM_TTL) {
+      deleteRoom(room.id);
+      continue;
+    }
+    rooms.set(room.id, room);
+    // Nobody is in a room that was just loaded
+    expireIfEmpty(room);
   }
-  return rooms.get(roomId);
+  console.log(`Restored ${rooms.size} room(s)`);
 }
 
 export function getPlayerCount(room: Room): number {
   return room.players.size;
 }
 
-export function addPlayerToRoom(room: Room, player: Player): number {
-  return room.players.set(player.id, player).size;
+export function getPlayerBySession(
+  room: Room,
+  sessionToken: string,
+): Player | undefined {
+  const playerId = room.sessions.get(sessionToken);
+  return Array.from(room.players.values()).find((p) => p.id === playerId);
+}
+
+// Lowest seat not taken, including seats held for disconnected players
+export function getFreePlayerNumber(room: Room): number {
+  const taken = new Set(
+    Array.from(room.players.values(), (p) => p.playerNumber),
+  );
+  let playerNumber = 1;
+  while (taken.has(playerNumber)) playerNumber++;
+  return playerNumber;
 }
 
-export function removePlayerFromRoom(room: Room, playerId: string): void {
-  room.players.delete(playerId);
+/**
+ * Validate a requested turn order: it must list every seated player
+ * exactly once.
+ */
+export function parseTurnOrder(room: Room, order: unknown): number[] | null {
+  if (!Array.isArray(order)) return null;
+  const seats = Array.from(room.players.values(), (p) => p.playerNumber);
+  if (
+    order.length !== seats.length ||
+    new Set(order).size !== order.length ||
+    !order.every((n) => seats.includes(n))
+  ) {
+    return null;
+  }
+  return order;
+}
+
+/**
+ * Keep a disconnected player's seat for the grace period, then call
+ * `onRelease` unless they reconnect first.
+ */
+export function holdSeat(
+  room: Room,
+  player: Player,
+  onRelease: () => void,
+): void {
+  player.connected = false;
+  cancelSeatRelease(player.id);
+  seatReleases.set(
+    player.id,
+    setTimeout(() => {
+      seatReleases.delete(player.id);
+      room.players.delete(player.socketId);
+      for (const [token, playerId] of room.sessions) {
+        if (playerId === player.id) room.sessions.delete(token);
+      }
+      onRelease();
+    }, RECONNECT_GRACE_PERIOD * 1000),
+  );
+}
+
+export function cancelSeatRelease(playerId: string): void {
+  clearTimeout(seatReleases.get(playerId));
+  seatReleases.delete(playerId);
 }
 
 export function isRoomFull(room: Room): boolean {
-  return room.players.size >= 2;
+  return room.players.size >= room.maxPlayers;
 }
 
+// Rooms stay open while anyone is still watching
 export function isRoomEmpty(room: Room): boolean {
-  return room.players.size === 0;
+  return room.players.size === 0 && room.spectators.size === 0;
 }
 
+/**
+ * Delete the room once `ttl` ms have passed, if it is still empty by then.
+ * Each call starts the wait over, so it runs from the last person leaving.
+ */
+export function expireIfEmpty(room: Room, ttl = EMPTY_ROOM_TTL): void {
+  clearTimeout(roomExpiries.get(room.id));
+  roomExpiries.set(
+    room.id,
+    setTimeout(() => {
+      roomExpiries.delete(room.id);
+      if (rooms.get(room.id) === room && isRoomEmpty(room)) {
+        deleteRoom(room.id);
+        console.log(`Room ${room.id} deleted (empty)`);
+      }
+    }, ttl),
+  );
+}
+
+// Gone for good: its saved copy and samples go with it
 export function deleteRoom(roomId: string): boolean {
+  clearTimeout(roomExpiries.get(roomId));
+  roomExpiries.delete(roomId);
+  stopTurnTimer(roomId);
+  clearHistory(roomId);
+  forgetRoom(roomId);
+  for (const player of rooms.get(roomId)?.players.values() ?? []) {
+    cancelSeatRelease(player.id);
+  }
+  deleteRoomSamples(roomId).catch((e) =>
+    console.error(`Failed to delete samples for room ${roomId}:`, e),
+  );
   return rooms.delete(roomId);
 }
@@ -0,0 +1,84 @@
+import type { ErrorCode, Pattern, Player, Room } from "./types";
+import { MIXER_CHANNELS } from "./types";
+
+// Why an edit breaks the room's turn rules, sent back as the rejection
+export interface RuleViolation {
+  code: ErrorCode;
+  message: string;
+}
+
+// A drum row or the piano for the turn about to start, if the rules hand
+// one out
+export function assignInstrument(room: Room): string | null {
+  if (!room.rules.assignInstruments) return null;
+  return MIXER_CHANNELS[Math.floor(Math.random() * MIXER_CHANNELS.length)];
+}
+
+/**
+ * Whether the running turn may edit `instrument` (a drum id or "piano"),
+ * and with `adding` set, place another note on it. Edits only happen
+ * during a turn (see `checkTurn`), so both rules always apply.
+ */
+export function checkInstrument(
+  room: Room,
+  instrument: string,
+  adding = false,
+): RuleViolation | null {
+  const { assignment, notesAdded } = room.turn;
+  if (assignment !== null && assignment !== instrument) {
+    return {
+      code: "instrument-locked",
+      message: `This turn can only play the ${assignment}`,
+    };
+  }
+  const { noteBudget } = room.rules;
+  if (adding && noteBudget !== null && notesAdded >= noteBudget) {
+    return {
+      code: "note-budget-spent",
+      message: `This turn's ${noteBudget} notes are used up`,
+    };
+  }
+  return null;
+}
+
+// Notes without an owner predate the rule and are fair game
+export function checkRemoval(
+  room: Room,
+  player: Player,
+  ownerId: string | undefined,
+): RuleViolation | null {
+  if (!room.rules.protectNotes || ownerId === undefined) return null;
+  if (ownerId === player.id) return null;
+  return {
+    code: "not-your-note",
+    message: "Only the player who placed a note can remove it",
+  };
+}
+
+/**
+ * Clearing or deleting a pattern takes every row with it, so it needs a
+ * turn with no assigned instrument and, with notes protected, nobody
+ * else's notes in the pattern.
+ */
+export function checkPatternWipe(
+  room: Room,
+  player: Player,
+  pattern: Pattern,
+): RuleViolation | null {
+  const { assignment } = room.turn;
+  if (assignment !== null) {
+    return {
+      code: "instrument-locked",
+      message: `This turn can only play the ${assignment}`,
+    };
+  }
+  const notes = [
+    ...pattern.steps.flat().filter((step) => step.active),
+    ...pattern.pianoNotes,
+  ];
+  for (const note of notes) {
+    const violation = checkRemoval(room, player, note.ownerId);
+    if (violation) return violation;
+  }
+  return null;
+}
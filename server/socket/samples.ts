@@ -0,0 +1,59 @@
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+export const SAMPLES_DIR =
+  process.env.SAMPLES_DIR || path.join("data", "samples");
+export const MAX_SAMPLE_BYTES = 2 * 1024 * 1024;
+export const ALLOWED_SAMPLE_TYPES = [
+  "audio/wav",
+  "audio/x-wav",
+  "audio/wave",
+  "audio/mpeg",
+  "audio/mp3",
+  "audio/ogg",
+  "audio/flac",
+  "audio/x-flac",
+  "audio/webm",
+  "audio/mp4",
+  "audio/aac",
+];
+
+// Room and instrument ids become directory/file names, so keep them boring
+const SAFE_SEGMENT = /^[A-Za-z0-9_-]+$/;
+
+export function isSafeSegment(segment: string): boolean {
+  return SAFE_SEGMENT.test(segment);
+}
+
+function samplePath(roomId: string, instrumentId: string): string {
+  if (!isSafeSegment(roomId) || !isSafeSegment(instrumentId)) {
+    throw new Error(`Invalid sample path: ${roomId}/${instrumentId}`);
+  }
+  return path.join(SAMPLES_DIR, roomId, instrumentId);
+}
+
+export async function writeSample(
+  roomId: string,
+  instrumentId: string,
+  data: Buffer,
+): Promise<void> {
+  const file = samplePath(roomId, instrumentId);
+  await mkdir(path.dirname(file), { recursive: true });
+  await writeFile(file, data);
+}
+
+export async function readSample(
+  roomId: string,
+  instrumentId: string,
+): Promise<Buffer | null> {
+  try {
+    return await readFile(samplePath(roomId, instrumentId));
+  } catch {
+    return null;
+  }
+}
+
+export async function deleteRoomSamples(roomId: string): Promise<void> {
+  if (!isSafeSegment(roomId)) return;
+  await rm(path.join(SAMPLES_DIR, roomId), { recursive: true, force: true });
+}
@@ -0,0 +1,62 @@
+import { randomUUID } from "node:crypto";
+
+import { clearHistory, getBeat, setBeat } from "./history";
+import { retimeTransport } from "./transport";
+import type { Player, Room, Snapshot } from "./types";
+
+// Oldest rounds fall off the history past this many
+const MAX_SNAPSHOTS = 50;
+
+/**
+ * Keep a copy of the beat as the current turn leaves it, tagged with the
+ * round and the player whose turn it was.
+ */
+export function takeSnapshot(room: Room): Snapshot {
+  const { currentPlayer, round } = room.turn;
+  const player = Array.from(room.players.values()).find(
+    (p) => p.playerNumber === currentPlayer,
+  );
+  const snapshot: Snapshot = {
+    ...getBeat(room),
+    id: randomUUID(),
+    round,
+    playerNumber: currentPlayer,
+    // The seat may already be given up if the player left mid-turn
+    playerName: player?.name ?? `Player ${currentPlayer}`,
+    bpm: room.bpm,
+    createdAt: Date.now(),
+  };
+  room.snapshots.push(snapshot);
+  if (room.snapshots.length > MAX_SNAPSHOTS) room.snapshots.shift();
+  return snapshot;
+}
+
+export function getSnapshot(room: Room, snapshotId: string): Snapshot | null {
+  return room.snapshots.find((s) => s.id === snapshotId) ?? null;
+}
+
+/**
+ * Connected players who still have to agree to the open restore. Dropped
+ * players don't hold it up.
+ */
+export function getPendingApprovals(room: Room): Player[] {
+  const approvals = room.restoreProposal?.approvals ?? [];
+  return Array.from(room.players.values()).filter(
+    (p) => p.connected && !approvals.includes(p.id),
+  );
+}
+
+/**
+ * Put the beat and tempo back to how a snapshot has them. The snapshot
+ * itself stays in the history, so the restore can be undone by restoring a
+ * later one.
+ */
+export function restoreSnapshot(room: Room, snapshot: Snapshot): void {
+  const { stepCount, resolution, patterns, arrangement } =
+    structuredClone(snapshot);
+  retimeTransport(room);
+  setBeat(room, { stepCount, resolution, patterns, arrangement });
+  room.bpm = snapshot.bpm;
+  room.restoreProposal = null;
+  clearHistory(room.id);
+}
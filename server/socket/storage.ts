@@ -0,0 +1,100 @@
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  writeFile,
+} from "node:fs/promises";
+import path from "node:path";
+
+import { isSafeSegment } from "./samples";
+import type { Room } from "./types";
+
+export const ROOMS_DIR = process.env.ROOMS_DIR || path.join("data", "rooms");
+
+/**
+ * What survives a restart: the beat, its settings, round snapshots, the
+ * game with its stats and the turn count.
+ * Players, sessions, spectators and chat belong to live sockets and are
+ * dropped, so seats aren't kept across a restart: everyone comes back as a
+ * new player and takes whichever seat is free.
+ */
+export type StoredRoom = Omit<
+  Room,
+  | "players"
+  | "sessions"
+  | "spectators"
+  | "turn"
+  | "transport"
+  | "restoreProposal"
+  | "vote"
+  | "chat"
+> & {
+  turn: Pick<Room["turn"], "round" | "isFinished">;
+  updatedAt: number;
+};
+
+export interface RoomStorage {
+  loadAll(): Promise<unknown[]>;
+  save(room: StoredRoom): Promise<void>;
+  delete(roomId: string): Promise<void>;
+}
+
+export function createMemoryStorage(): RoomStorage {
+  const saved = new Map<string, string>();
+  return {
+    async loadAll() {
+      return Array.from(saved.values(), (json) => JSON.parse(json));
+    },
+    async save(room) {
+      saved.set(room.id, JSON.stringify(room));
+    },
+    async delete(roomId) {
+      saved.delete(roomId);
+    },
+  };
+}
+
+/**
+ * One JSON file per room. Writes go to a temp file first so a crash
+ * mid-write never leaves a half-written room behind.
+ */
+export function createFileStorage(dir = ROOMS_DIR): RoomStorage {
+  const roomPath = (roomId: string) => {
+    if (!isSafeSegment(roomId)) {
+      throw new Error(`Invalid room id: ${roomId}`);
+    }
+    return path.join(dir, `${roomId}.json`);
+  };
+
+  return {
+    async loadAll() {
+      let files: string[];
+      try {
+        files = await readdir(dir);
+      } catch {
+        return [];
+      }
+      const rooms: unknown[] = [];
+      for (const file of files.filter((f) => f.endsWith(".json"))) {
+        try {
+          rooms.push(JSON.parse(await readFile(path.join(dir, file), "utf8")));
+        } catch (e) {
+          console.error(`Skipping unreadable room file ${file}:`, e);
+        }
+      }
+      return rooms;
+    },
+    async save(room) {
+      const file = roomPath(room.id);
+      await mkdir(dir, { recursive: true });
+      await writeFile(`${file}.tmp`, JSON.stringify(room));
+      await rename(`${file}.tmp`, file);
+    },
+    async delete(roomId) {
+      if (!isSafeSegment(roomId)) return;
+      await rm(roomPath(roomId), { force: true });
+    },
+  };
+}
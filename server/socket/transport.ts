@@ -0,0 +1,40 @@
+import type { Room } from "./types";
+import { STEPS_PER_BEAT, TRANSPORT_LEAD } from "./types";
+
+function getStepMs(room: Room): number {
+  return 60_000 / room.bpm / STEPS_PER_BEAT[room.resolution];
+}
+
+/**
+ * Start, stop or move playback for the whole room. Playing starts `step` a
+ * moment from now on the server clock.
+ */
+export function setTransport(
+  room: Room,
+  isPlaying: boolean,
+  step: number,
+): void {
+  room.transport = {
+    isPlaying,
+    step,
+    startAt: isPlaying ? Date.now() + TRANSPORT_LEAD : null,
+  };
+}
+
+/**
+ * Move a running transport's anchor up to the next step, timed at the
+ * current tempo. Call it before the step length changes, so clients that
+ * join in later still count from the right place.
+ */
+export function retimeTransport(room: Room, now = Date.now()): void {
+  const { isPlaying, step, startAt } = room.transport;
+  if (!isPlaying || startAt === null || now <= startAt) return;
+
+  const stepMs = getStepMs(room);
+  const elapsed = Math.ceil((now - startAt) / stepMs);
+  room.transport = {
+    isPlaying,
+    step: step + elapsed,
+    startAt: startAt + elapsed * stepMs,
+  };
+}
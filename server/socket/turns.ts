@@ -0,0 +1,181 @@
+import { countTurn, finishGame, openVote } from "./game";
+import { clearHistory } from "./history";
+import { saveRoom } from "./persistence";
+import type { RuleViolation } from "./rules";
+import { assignInstrument } from "./rules";
+import { takeSnapshot } from "./snapshots";
+import type { Player, Room, TypedServer } from "./types";
+
+const TICK_INTERVAL = 1000;
+
+interface TurnTimer {
+  tick: ReturnType<typeof setInterval>;
+  expire: ReturnType<typeof setTimeout>;
+}
+
+const turnTimers = new Map<string, TurnTimer>();
+
+export function isTurnExpired(room: Room, now = Date.now()): boolean {
+  return (
+    room.turn.isActive &&
+    room.turn.deadline !== null &&
+    now >= room.turn.deadline
+  );
+}
+
+/**
+ * Edits belong to a running turn: only its player may make them, and only
+ * until the server deadline. Between turns the beat stays as the last turn
+ * left it, unless `betweenTurns` allows a room setting to change then.
+ * Once the game is finished nobody may edit.
+ */
+export function checkTurn(
+  room: Room,
+  player: Player,
+  betweenTurns = false,
+  now = Date.now(),
+): RuleViolation | null {
+  if (room.turn.isFinished) {
+    return { code: "game-over", message: "The game is over" };
+  }
+  if (!room.turn.isActive) {
+    return betweenTurns
+      ? null
+      : { code: "no-active-turn", message: "Start your turn to edit" };
+  }
+  if (player.playerNumber !== room.turn.currentPlayer) {
+    return {
+      code: "not-your-turn",
+      message: `It's Player ${room.turn.currentPlayer}'s turn`,
+    };
+  }
+  if (isTurnExpired(room, now)) {
+    return { code: "turn-expired", message: "Your turn is over" };
+  }
+  return null;
+}
+
+export function stopTurnTimer(roomId: string): void {
+  const timer = turnTimers.get(roomId);
+  if (!timer) return;
+  clearInterval(timer.tick);
+  clearTimeout(timer.expire);
+  turnTimers.delete(roomId);
+}
+
+/**
+ * Start the current player's turn. The server owns the deadline: it sends a
+ * `turn-tick` every second and ends the turn itself once time is up.
+ */
+export function startTurn(io: TypedServer, room: Room): void {
+  stopTurnTimer(room.id);
+  // Undo never reaches past the start of the turn
+  clearHistory(room.id);
+
+  const now = Date.now();
+  room.turn.isActive = true;
+  room.turn.assignment = assignInstrument(room);
+  room.turn.notesAdded = 0;
+  room.turn.timeRemaining = room.turnDuration;
+  room.turn.deadline = now + room.turnDuration * 1000;
+
+  io.to(room.id).emit("turn-started", { ...room.turn, serverTime: now });
+
+  turnTimers.set(room.id, {
+    tick: setInterval(() => {
+      const { deadline } = room.turn;
+      if (deadline === null) return;
+      const serverTime = Date.now();
+      room.turn.timeRemaining = Math.max(
+        0,
+        Math.ceil((deadline - serverTime) / 1000),
+      );
+      io.to(room.id).emit("turn-tick", {
+        timeRemaining: room.turn.timeRemaining,
+        deadline,
+        serverTime,
+      });
+    }, TICK_INTERVAL),
+    expire: setTimeout(() => endTurn(io, room), room.turnDuration * 1000),
+  });
+}
+
+/**
+ * The next connected player after the current one in turn order, and
+ * whether getting there goes back around to the start of a new round.
+ */
+function getNextPlayer(room: Room): { playerNumber: number; wrapped: boolean } {
+  const { order, currentPlayer } = room.turn;
+  const connected = new Set(
+    Array.from(room.players.values())
+      .filter((p) => p.connected)
+      .map((p) => p.playerNumber),
+  );
+  // Stays at -1 if the current player isn't in the rotation; seats are
+  // only taken out of it once their turn has moved on
+  const index = order.indexOf(currentPlayer);
+  for (let offset = 1; offset <= order.length; offset++) {
+    const candidate = order[(index + offset) % order.length];
+    if (connected.has(candidate)) {
+      return {
+        playerNumber: candidate,
+        wrapped: index + offset >= order.length,
+      };
+    }
+  }
+  return { playerNumber: currentPlayer, wrapped: false };
+}
+
+/**
+ * Pass the turn along the rotation, whether time ran out or the player
+ * ended it early. Disconnected players are skipped. A turn that was played
+ * leaves a snapshot of the beat behind, and in vote mode goes up for rating.
+ * Past the last round of a game with a set length, the game finishes.
+ */
+export function endTurn(io: TypedServer, room: Room): void {
+  stopTurnTimer(room.id);
+  clearHistory(room.id);
+
+  const wasActive = room.turn.isActive;
+  const player = Array.from(room.players.values()).find(
+    (p) => p.playerNumber === room.turn.currentPlayer,
+  );
+  // Tagged with the round and player before the turn moves on
+  if (wasActive) {
+    io.to(room.id).emit("snapshot-added", { snapshot: takeSnapshot(room) });
+    if (player) countTurn(room, player);
+  }
+
+  const { playerNumber, wrapped } = getNextPlayer(room);
+  const isLastTurn =
+    wasActive &&
+    wrapped &&
+    room.game.mode !== "endless" &&
+    room.turn.round >= room.game.rounds;
+  room.turn.currentPlayer = playerNumber;
+  room.turn.isActive = false;
+  room.turn.assignment = null;
+  room.turn.timeRemaining = room.turnDuration;
+  room.turn.deadline = null;
+  if (isLastTurn) {
+    room.turn.isFinished = true;
+  } else if (wrapped && wasActive) {
+    // Skipping past the end without playing doesn't count as a round
+    room.turn.round += 1;
+  }
+  // Turns can also end on the server's own timer, outside any socket event
+  saveRoom(room);
+
+  io.to(room.id).emit("turn-ended", { ...room.turn });
+
+  // The results wait for the last turn's ratings
+  if (
+    wasActive &&
+    player &&
+    room.game.mode === "vote" &&
+    openVote(io, room, player, isLastTurn)
+  ) {
+    return;
+  }
+  if (isLastTurn) finishGame(io, room);
+}
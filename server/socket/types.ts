@@ -1,27 +1,198 @@
-export interface Player {
-  id: string;
-  name: string;
-  socketId: string;
-  playerNumber: 1 | 2;
-}
+import type { Server, Socket } from "socket.io";
 
-export interface TurnState {
-  currentPlayer: 1 | 2;
-  timeRemaining: number;
-  isActive: boolean;
-  round: number;
-}
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from "../../shared/protocol";
+import type {
+  ArrangementEntry,
+  BpmRange,
+  ChatMessage,
+  EffectsState,
+  GameSettings,
+  MixerState,
+  Pattern,
+  Player,
+  PlayerStats,
+  RestoreProposal,
+  RoomVisibility,
+  Snapshot,
+  Spectator,
+  StepResolution,
+  SynthSettings,
+  TransportState,
+  TurnRules,
+  TurnState,
+  TurnVote,
+  UploadedSample,
+} from "../../shared/types";
+import { DEFAULT_ROUNDS, MAX_BPM, MIN_BPM } from "../../shared/types";
+
+export type {
+  ClientEvent,
+  ClientEventPayloads,
+  ClientToServerEvents,
+  CreateRoomRequest,
+  ErrorCode,
+  JoinRejectedReason,
+  ServerEventPayloads,
+  ServerToClientEvents,
+  SocketError,
+} from "../../shared/protocol";
+export {
+  clientEventValidators,
+  createRoomValidator,
+  MAX_CHAT_LENGTH,
+  MAX_PASSWORD_LENGTH,
+} from "../../shared/protocol";
+export type {
+  ArrangementEntry,
+  BeatState,
+  BpmRange,
+  ChannelEffects,
+  ChatMessage,
+  DelaySettings,
+  EffectsState,
+  GameMode,
+  GameSettings,
+  HistoryState,
+  MixerChannel,
+  MixerState,
+  Pattern,
+  PatternSettings,
+  PianoNote,
+  Player,
+  PlayerResult,
+  PlayerStats,
+  Presence,
+  PresenceCell,
+  PresencePanel,
+  Reaction,
+  ReactionEmoji,
+  RestoreProposal,
+  ReverbSettings,
+  RoomSettings,
+  RoomState,
+  RoomSummary,
+  RoomVisibility,
+  Snapshot,
+  Spectator,
+  Step,
+  StepResolution,
+  SynthSettings,
+  TransportState,
+  TurnRules,
+  TurnState,
+  TurnVote,
+  UploadedSample,
+} from "../../shared/types";
+export {
+  createDefaultEffects,
+  createDefaultMixer,
+  DEFAULT_CHANNEL_EFFECTS,
+  DEFAULT_KIT,
+  DEFAULT_MAX_PLAYERS,
+  DEFAULT_MIXER_CHANNEL,
+  DEFAULT_ROUNDS,
+  DEFAULT_STEP_COUNT,
+  DEFAULT_SYNTH,
+  DEFAULT_TURN_DURATION,
+  DEFAULT_VELOCITY,
+  DRUM_KITS,
+  GAME_MODES,
+  INSTRUMENTS,
+  MAX_BPM,
+  MAX_CHAT_HISTORY,
+  MAX_NOTE_BUDGET,
+  MAX_PATTERNS,
+  MAX_PLAYERS,
+  MAX_RATING,
+  MAX_REPEATS,
+  MAX_ROUNDS,
+  MIN_BPM,
+  MIN_PLAYERS,
+  MIN_RATING,
+  MIN_ROUNDS,
+  MIXER_CHANNELS,
+  PIANO_CHANNEL,
+  PRESENCE_PANELS,
+  REACTIONS,
+  ROOM_VISIBILITIES,
+  STEP_COUNTS,
+  STEP_RESOLUTIONS,
+  STEPS_PER_BEAT,
+  TURN_DURATIONS,
+} from "../../shared/types";
+
+export type TypedServer = Server<ClientToServerEvents, ServerToClientEvents>;
+export type TypedSocket = Socket<ClientToServerEvents, ServerToClientEvents>;
+
+// Single-step piano notes from before note lengths existed:
+// [stepIndex, noteIndex[] | [noteIndex, velocity][]][]
+export type LegacyPianoSteps = [number, (number | [number, number])[]][];
 
 export interface Room {
   id: string;
+  // Keyed by socket id
   players: Map<string, Player>;
-  steps: boolean[][];
-  pianoSteps: Map<number, Set<number>>;
+  // Session token -> player id, kept off Player so it is never broadcast
+  sessions: Map<string, string>;
+  // Keyed by socket id
+  spectators: Map<string, Spectator>;
+  maxPlayers: number;
+  stepCount: number;
+  resolution: StepResolution;
+  // Seconds
+  turnDuration: number;
+  bpmRange: BpmRange;
+  visibility: RoomVisibility;
+  inviteOnly: boolean;
+  // "<salt>:<scrypt hash>", both hex, or null for an open room
+  passwordHash: string | null;
+  // Unused invite token -> when it expires (ms)
+  invites: Record<string, number>;
+  patterns: Pattern[];
+  arrangement: ArrangementEntry[];
   bpm: number;
+  kit: string;
+  synth: SynthSettings;
+  mixer: MixerState;
+  effects: EffectsState;
+  samples: Record<string, UploadedSample>;
   turn: TurnState;
+  game: GameSettings;
+  rules: TurnRules;
+  // Keyed by player id, kept for players who have left too
+  stats: Record<string, PlayerStats>;
+  vote: TurnVote | null;
+  transport: TransportState;
+  // Oldest first, one for every turn played
+  snapshots: Snapshot[];
+  restoreProposal: RestoreProposal | null;
+  // Newest last, at most MAX_CHAT_HISTORY
+  chat: ChatMessage[];
 }
 
-export const INSTRUMENTS = ["kick", "snare", "hihat", "clap"] as const;
-export const STEPS = 16;
+export const MAX_PATTERN_NAME_LENGTH = 20;
+export const MAX_ARRANGEMENT_LENGTH = 64;
+export const DEFAULT_RESOLUTION: StepResolution = "16th";
 export const DEFAULT_BPM = 120;
-export const TURN_DURATION = 60;
+export const DEFAULT_BPM_RANGE: BpmRange = { min: MIN_BPM, max: MAX_BPM };
+export const DEFAULT_GAME: GameSettings = {
+  mode: "endless",
+  rounds: DEFAULT_ROUNDS,
+};
+export const DEFAULT_RULES: TurnRules = {
+  noteBudget: null,
+  assignInstruments: false,
+  protectNotes: false,
+};
+// Milliseconds between a transport change and the step it starts on, so
+// every client hears about it in time
+export const TRANSPORT_LEAD = 200;
+export const DEFAULT_VISIBILITY: RoomVisibility = "private";
+// Characters room codes are made of, without look-alikes such as 0 and O
+export const ROOM_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+export const ROOM_CODE_LENGTH = 6;
+// Seconds a disconnected player's seat is held for them
+export const RECONNECT_GRACE_PERIOD = 30;
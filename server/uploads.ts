@@ -0,0 +1,142 @@
+import type { IncomingMessage, ServerResponse } from "http";
+
+import {
+  ALLOWED_SAMPLE_TYPES,
+  isSafeSegment,
+  MAX_SAMPLE_BYTES,
+  readSample,
+  writeSample,
+} from "./socket/samples";
+import { HttpError, readBody, sendError, sendJson } from "./http";
+import {
+  checkInstrument,
+  checkTurn,
+  getPlayerBySession,
+  INSTRUMENTS,
+  rooms,
+  saveRoom,
+  type TypedServer,
+} from "./socket";
+
+const SAMPLE_ROUTE = /^\/api\/rooms\/([^/]+)\/samples\/([^/]+)$/;
+
+function getInstrumentId(value: string) {
+  return INSTRUMENTS.find((id) => id === value);
+}
+
+// Sent URI-encoded so any file name fits in a header
+function parseFileName(header: string | string[] | undefined): string | null {
+  if (header === undefined) return null;
+  try {
+    const fileName = decodeURIComponent(String(header)).trim();
+    return fileName ? fileName.slice(0, 100) : null;
+  } catch {
+    throw new HttpError(400, "Invalid file name");
+  }
+}
+
+async function handleUpload(
+  io: TypedServer,
+  req: IncomingMessage,
+  roomId: string,
+  instrumentId: string,
+) {
+  const room = rooms.get(roomId);
+  if (!room) throw new HttpError(404, "Room not found");
+
+  // Only players currently in the room may replace its sounds. Socket ids
+  // are shared with the whole room, so the seat's session token is asked
+  // for instead.
+  const sessionToken = req.headers["x-session-token"];
+  const player =
+    typeof sessionToken === "string"
+      ? getPlayerBySession(room, sessionToken)
+      : undefined;
+  if (!player?.connected) {
+    throw new HttpError(403, "Not a player in this room");
+  }
+  // Held to the same turn and rules as the socket edits
+  const violation =
+    checkTurn(room, player) ?? checkInstrument(room, instrumentId);
+  if (violation) throw new HttpError(403, violation.message);
+
+  const mimeType = (req.headers["content-type"] || "").split(";")[0].trim();
+  if (!ALLOWED_SAMPLE_TYPES.includes(mimeType)) {
+    throw new HttpError(415, "Unsupported audio type");
+  }
+  if (Number(req.headers["content-length"]) > MAX_SAMPLE_BYTES) {
+    throw new HttpError(413, "Sample is too large");
+  }
+
+  const data = await readBody(req, MAX_SAMPLE_BYTES, "Sample is too large");
+  if (data.length === 0) throw new HttpError(400, "Empty upload");
+  const fileName = parseFileName(req.headers["x-file-name"]) ?? instrumentId;
+
+  await writeSample(roomId, instrumentId, data);
+  // Version the URL so clients never decode a stale cached copy
+  const url = `/api/rooms/${roomId}/samples/${instrumentId}?v=${Date.now()}`;
+  room.samples[instrumentId] = { fileName, mimeType, url };
+  saveRoom(room);
+
+  io.to(roomId).except(player.socketId).emit("sample-uploaded", {
+    instrumentId,
+    sample: room.samples[instrumentId],
+    playerId: player.socketId,
+  });
+
+  console.log(`Sample uploaded for ${instrumentId} in room ${roomId}`);
+  return room.samples[instrumentId];
+}
+
+async function handleDownload(
+  res: ServerResponse,
+  roomId: string,
+  instrumentId: string,
+) {
+  const sample = rooms.get(roomId)?.samples[instrumentId];
+  const data = sample && (await readSample(roomId, instrumentId));
+  if (!sample || !data) throw new HttpError(404, "Sample not found");
+
+  res.statusCode = 200;
+  res.setHeader("Content-Type", sample.mimeType);
+  res.setHeader("Content-Length", data.length);
+  res.setHeader("Cache-Control", "private, max-age=31536000, immutable");
+  res.end(data);
+}
+
+/**
+ * HTTP middleware for per-room custom samples.
+ *
+ * - POST /api/rooms/:roomId/samples/:instrumentId uploads a raw audio body
+ * - GET  /api/rooms/:roomId/samples/:instrumentId serves it back
+ *
+ * Written against plain Node req/res so it mounts in both Express
+ * (production) and Vite's connect server (development).
+ */
+export function createSampleMiddleware(io: TypedServer) {
+  return (req: IncomingMessage, res: ServerResponse, next: () => void) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+    const match = pathname.match(SAMPLE_ROUTE);
+    if (!match || (req.method !== "GET" && req.method !== "POST")) {
+      next();
+      return;
+    }
+
+    const [, roomId, rawInstrumentId] = match;
+    const instrumentId = getInstrumentId(rawInstrumentId);
+
+    const handle = async () => {
+      if (!isSafeSegment(roomId) || !instrumentId) {
+        throw new HttpError(404, "Unknown room or instrument");
+      }
+      if (req.method === "POST") {
+        const sample = await handleUpload(io, req, roomId, instrumentId);
+        sendJson(res, 201, { instrumentId, sample });
+      } else {
+        await handleDownload(res, roomId, instrumentId);
+      }
+    };
+
+    handle().catch((e) => sendError(res, e, "Sample request"));
+  };
+}
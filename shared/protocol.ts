@@ -0,0 +1,580 @@
+import type {
+  ArrangementEntry,
+  BeatState,
+  ChannelEffects,
+  ChatMessage,
+  DelaySettings,
+  GameSettings,
+  HistoryState,
+  MixerChannel,
+  Pattern,
+  PianoNote,
+  Player,
+  PlayerResult,
+  Presence,
+  Reaction,
+  ReactionEmoji,
+  RestoreProposal,
+  ReverbSettings,
+  RoomSettings,
+  RoomState,
+  Snapshot,
+  Spectator,
+  StepResolution,
+  SynthSettings,
+  TransportState,
+  TurnRules,
+  TurnState,
+  TurnTick,
+  TurnVote,
+  UploadedSample,
+} from "./types";
+import {
+  GAME_MODES,
+  MAX_BPM,
+  MAX_NOTE_BUDGET,
+  MAX_RATING,
+  MAX_ROUNDS,
+  MIN_BPM,
+  MIN_RATING,
+  MIN_ROUNDS,
+  PIANO_NOTES,
+  PRESENCE_PANELS,
+  REACTIONS,
+  ROOM_VISIBILITIES,
+  STEP_RESOLUTIONS,
+} from "./types";
+
+export const MAX_ID_LENGTH = 64;
+export const MAX_PLAYER_NAME_LENGTH = 32;
+export const MAX_CHAT_LENGTH = 280;
+export const MAX_PASSWORD_LENGTH = 64;
+
+interface RoomTarget {
+  roomId: string;
+}
+
+interface PatternTarget extends RoomTarget {
+  patternId: string;
+}
+
+interface StepTarget extends PatternTarget {
+  instrumentIndex: number;
+  stepIndex: number;
+}
+
+interface NoteTarget extends PatternTarget {
+  noteId: string;
+}
+
+// Sent along with every broadcast edit so clients know who made it
+interface FromPlayer {
+  playerId: string;
+}
+
+/** Payload of each event a client sends, keyed by event name. */
+export interface ClientEventPayloads {
+  "join-room": RoomTarget & {
+    playerName: string;
+    // Checked for new seats and spectators, returning players skip it
+    password?: string;
+    invite?: string;
+    sessionToken?: string | null;
+  };
+  "toggle-step": StepTarget;
+  "set-step-velocity": StepTarget & { velocity: number };
+  "set-bpm": RoomTarget & { bpm: number };
+  "set-kit": RoomTarget & { kit: string };
+  "set-synth": RoomTarget & { synth: Partial<SynthSettings> };
+  "set-mixer-channel": RoomTarget & {
+    channelId: string;
+    channel: Partial<MixerChannel>;
+  };
+  "set-master-volume": RoomTarget & { masterVolume: number };
+  "set-channel-effects": RoomTarget & {
+    channelId: string;
+    effects: Partial<ChannelEffects>;
+  };
+  "set-effect-params": RoomTarget & {
+    reverb?: Partial<ReverbSettings>;
+    delay?: Partial<DelaySettings>;
+  };
+  "start-turn": RoomTarget;
+  "end-turn": RoomTarget;
+  "set-turn-order": RoomTarget & { order: number[] };
+  "reset-game": RoomTarget;
+  // Only before the first turn of a game
+  "set-game": RoomTarget & GameSettings;
+  // Rate the turn up for a vote
+  "rate-turn": RoomTarget & { rating: number };
+  // Only between turns; rules left out stay as they are
+  "set-rules": RoomTarget & Partial<TurnRules>;
+  "clear-pattern": PatternTarget;
+  "set-pattern-length": RoomTarget & {
+    stepCount?: number;
+    resolution?: StepResolution;
+  };
+  "add-piano-note": PatternTarget & {
+    // Ids come from the adding client so it can edit the note right away
+    note: Omit<PianoNote, "velocity" | "ownerId"> &
+      Partial<Pick<PianoNote, "velocity">>;
+  };
+  "remove-piano-note": NoteTarget;
+  "resize-piano-note": NoteTarget & { duration: number };
+  "set-piano-velocity": NoteTarget & { velocity: number };
+  // `sourceId` duplicates that pattern instead of starting empty
+  "add-pattern": PatternTarget & { name: string; sourceId?: string };
+  "rename-pattern": PatternTarget & { name: string };
+  "delete-pattern": PatternTarget;
+  "set-arrangement": RoomTarget & { arrangement: ArrangementEntry[] };
+  // Step back and forth through the edits of the running turn
+  undo: RoomTarget;
+  redo: RoomTarget;
+  // Fetch the beat again, answered with `beat-synced` to this client only
+  "request-beat": RoomTarget;
+  // Ask everyone to roll the beat back to a round snapshot, and answer
+  "request-restore": RoomTarget & { snapshotId: string };
+  "answer-restore": RoomTarget & { snapshotId: string; accept: boolean };
+  // Playback for the whole room. Stop rests at `step`, so pausing is a stop
+  // at the current step.
+  "transport-play": RoomTarget & { step: number };
+  "transport-stop": RoomTarget & { step: number };
+  "transport-seek": RoomTarget & { step: number };
+  // Clock sync: the server answers with a `clock-pong` right away
+  "clock-ping": { clientTime: number };
+  // Sent often and volatile, so dropping one is fine
+  "set-presence": RoomTarget & Presence;
+  // Both are rate limited per player
+  "send-chat": RoomTarget & { text: string };
+  "send-reaction": RoomTarget & { emoji: ReactionEmoji };
+  "create-invite": RoomTarget;
+}
+
+export type ClientEvent = keyof ClientEventPayloads;
+
+export type ErrorCode =
+  // The payload doesn't match the event's shape
+  | "invalid-payload"
+  | "room-not-found"
+  // Spectators and sockets that never joined can't edit
+  | "not-a-player"
+  | "not-your-turn"
+  | "turn-expired"
+  | "turn-in-progress"
+  | "no-active-turn"
+  // The pattern, step, note or channel the edit points at is gone
+  | "not-found"
+  // Well-formed, but not allowed in the room as it is now
+  | "invalid-value"
+  | "limit-reached"
+  | "history-empty"
+  // The game is finished, so the beat stays as it is until a reset
+  | "game-over"
+  // Broken turn rules: the turn's notes are used up, the row isn't the
+  // one the turn was given, or the note belongs to another player
+  | "note-budget-spent"
+  | "instrument-locked"
+  | "not-your-note"
+  // Chat and reactions sent faster than the server allows
+  | "rate-limited";
+
+export interface SocketError {
+  event: ClientEvent;
+  code: ErrorCode;
+  message: string;
+}
+
+export type JoinRejectedReason =
+  | "name-taken"
+  | "room-not-found"
+  | "password-required"
+  | "wrong-password"
+  | "invite-required"
+  | "invite-invalid"
+  | "invite-expired";
+
+// Body of a create-room request; the password is only ever kept hashed
+export type CreateRoomRequest = Partial<RoomSettings> & { password?: string };
+
+/** Payload of each event the server sends, keyed by event name. */
+export interface ServerEventPayloads {
+  // Spectators join with no player number or session token
+  "joined-room": {
+    playerNumber: number | null;
+    sessionToken: string | null;
+    serverTime: number;
+    room: RoomState;
+  };
+  "join-rejected": { reason: JoinRejectedReason };
+  error: SocketError;
+  "step-toggled": FromPlayer & {
+    patternId: string;
+    instrumentIndex: number;
+    stepIndex: number;
+    active: boolean;
+    // Player id of whoever switched it on
+    ownerId?: string;
+  };
+  "step-velocity-changed": FromPlayer & {
+    patternId: string;
+    instrumentIndex: number;
+    stepIndex: number;
+    velocity: number;
+  };
+  "piano-note-added": FromPlayer & { patternId: string; note: PianoNote };
+  "piano-note-removed": FromPlayer & { patternId: string; noteId: string };
+  "piano-note-resized": FromPlayer & {
+    patternId: string;
+    noteId: string;
+    duration: number;
+  };
+  "piano-velocity-changed": FromPlayer & {
+    patternId: string;
+    noteId: string;
+    velocity: number;
+  };
+  "bpm-changed": FromPlayer & { bpm: number };
+  "pattern-length-changed": FromPlayer & {
+    stepCount: number;
+    resolution: StepResolution;
+    patterns: Pattern[];
+  };
+  "pattern-added": FromPlayer & { pattern: Pattern };
+  "pattern-renamed": FromPlayer & { patternId: string; name: string };
+  "pattern-deleted": FromPlayer & {
+    patternId: string;
+    arrangement: ArrangementEntry[];
+  };
+  "arrangement-changed": FromPlayer & { arrangement: ArrangementEntry[] };
+  "pattern-cleared": { patternId: string };
+  // Undo or redo replaced the beat wholesale
+  // Undo and redo also move the turn's note count back and forth
+  "beat-restored": FromPlayer & BeatState & { notesAdded: number };
+  "history-changed": HistoryState;
+  // The beat as the server has it, for a client whose edit was turned down
+  "beat-synced": BeatState & { notesAdded: number };
+  "snapshot-added": { snapshot: Snapshot };
+  "restore-proposal-changed": { proposal: RestoreProposal | null };
+  // Everyone agreed, so the beat is back to how the snapshot has it
+  "snapshot-restored": BeatState & { snapshotId: string; bpm: number };
+  "transport-changed": FromPlayer & TransportState;
+  "clock-pong": { clientTime: number; serverTime: number };
+  // Keyed by player id rather than socket id, to line up with `player-left`
+  "presence-changed": { playerId: string; presence: Presence };
+  "chat-message": { message: ChatMessage };
+  reaction: Reaction;
+  // Only to the player who asked for it
+  "invite-created": { token: string; expiresAt: number };
+  "kit-changed": FromPlayer & { kit: string };
+  "sample-uploaded": FromPlayer & {
+    instrumentId: string;
+    sample: UploadedSample;
+  };
+  "synth-changed": FromPlayer & { synth: SynthSettings };
+  "mixer-channel-changed": FromPlayer & {
+    channelId: string;
+    channel: MixerChannel;
+  };
+  "master-volume-changed": FromPlayer & { masterVolume: number };
+  "channel-effects-changed": FromPlayer & {
+    channelId: string;
+    effects: ChannelEffects;
+  };
+  "effect-params-changed": FromPlayer & {
+    reverb: ReverbSettings;
+    delay: DelaySettings;
+  };
+  "turn-started": TurnState & { serverTime: number };
+  "turn-tick": TurnTick;
+  "turn-ended": TurnState;
+  "turn-order-changed": FromPlayer & { order: number[] };
+  "game-changed": FromPlayer & GameSettings;
+  "rules-changed": FromPlayer & TurnRules;
+  "vote-changed": { vote: TurnVote | null };
+  "game-finished": { results: PlayerResult[]; turn: TurnState };
+  "game-reset": {
+    snapshots: Snapshot[];
+    patterns: Pattern[];
+    arrangement: ArrangementEntry[];
+    bpm: number;
+    synth: SynthSettings;
+    turn: TurnState;
+  };
+  "player-joined": { playerNumber: number; player: Player; order: number[] };
+  "player-left": { playerId: string; order: number[] };
+  "player-disconnected": { playerId: string };
+  "player-reconnected": { playerId: string };
+  "spectator-joined": { spectator: Spectator };
+  "spectator-left": { spectatorId: string };
+}
+
+export type ServerEvent = keyof ServerEventPayloads;
+
+// Socket.IO's listener maps, for typing `Server`, `Socket` and `io()`
+export type ClientToServerEvents = {
+  [E in ClientEvent]: (data: ClientEventPayloads[E]) => void;
+};
+
+export type ServerToClientEvents = {
+  [E in ServerEvent]: (data: ServerEventPayloads[E]) => void;
+};
+
+// Runtime checks. Each one is a type guard, so a payload that passes can be
+// used as its declared type without casts.
+
+export type Check<T> = (value: unknown) => value is T;
+
+type Checked<C> = C extends Check<infer T> ? T : never;
+
+const text =
+  (maxLength: number): Check<string> =>
+  (value): value is string =>
+    typeof value === "string" &&
+    value.trim().length > 0 &&
+    value.length <= maxLength;
+
+// Also safe to use as a file name, see server/socket/samples
+const ROOM_ID = /^[A-Za-z0-9_-]+$/;
+
+const roomId: Check<string> = (value): value is string =>
+  text(MAX_ID_LENGTH)(value) && ROOM_ID.test(value);
+
+const id = text(MAX_ID_LENGTH);
+
+const number =
+  (min = -Infinity, max = Infinity): Check<number> =>
+  (value): value is number =>
+    typeof value === "number" &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max;
+
+const integer =
+  (min = 0, max = Number.MAX_SAFE_INTEGER): Check<number> =>
+  (value): value is number =>
+    Number.isInteger(value) && number(min, max)(value);
+
+const unit = number(0, 1);
+
+const boolean: Check<boolean> = (value): value is boolean =>
+  typeof value === "boolean";
+
+const oneOf =
+  <T extends string>(values: readonly T[]): Check<T> =>
+  (value): value is T =>
+    (values as readonly unknown[]).includes(value);
+
+const optional =
+  <T>(check: Check<T>): Check<T | undefined> =>
+  (value): value is T | undefined =>
+    value === undefined || check(value);
+
+const nullable =
+  <T>(check: Check<T>): Check<T | null> =>
+  (value): value is T | null =>
+    value === null || check(value);
+
+const arrayOf =
+  <T>(check: Check<T>, maxLength = Infinity): Check<T[]> =>
+  (value): value is T[] =>
+    Array.isArray(value) && value.length <= maxLength && value.every(check);
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Keys outside the shape are rejected too, so nothing unexpected gets
+// merged into room state
+const object =
+  <S extends Record<string, Check<unknown>>>(
+    shape: S,
+  ): Check<{ [K in keyof S]: Checked<S[K]> }> =>
+  (value): value is { [K in keyof S]: Checked<S[K]> } =>
+    isRecord(value) &&
+    Object.keys(value).every((key) => Object.hasOwn(shape, key)) &&
+    Object.entries(shape).every(([key, check]) => check(value[key]));
+
+const partial = <S extends Record<string, Check<unknown>>>(
+  shape: S,
+): Check<{ [K in keyof S]?: Checked<S[K]> }> =>
+  object(
+    Object.fromEntries(
+      Object.entries(shape).map(([key, check]) => [key, optional(check)]),
+    ),
+  ) as Check<{ [K in keyof S]?: Checked<S[K]> }>;
+
+const roomTarget = { roomId };
+const patternTarget = { ...roomTarget, patternId: id };
+const stepTarget = {
+  ...patternTarget,
+  instrumentIndex: integer(),
+  stepIndex: integer(),
+};
+const noteTarget = { ...patternTarget, noteId: id };
+// The server trims names down to length
+const patternName = text(MAX_ID_LENGTH);
+
+// Sound settings keep to the ranges of their controls. Every client builds
+// its audio graph from them, so an open-ended value would reach them all.
+const resonance = number(0.1, 20);
+
+const synthSettings = partial({
+  waveform: oneOf(["sine", "square", "sawtooth", "triangle"] as const),
+  attack: number(0, 2),
+  decay: number(0, 2),
+  sustain: unit,
+  release: number(0, 3),
+  filterType: oneOf(["lowpass", "highpass", "bandpass"] as const),
+  filterCutoff: number(40, 18000),
+  filterResonance: resonance,
+});
+
+const mixerChannel = partial({
+  volume: unit,
+  pan: number(-1, 1),
+  mute: boolean,
+  solo: boolean,
+});
+
+const channelEffects = partial({
+  reverbSend: unit,
+  delaySend: unit,
+  filterType: oneOf(["lowpass", "highpass"] as const),
+  filterCutoff: number(20, 18000),
+  filterResonance: resonance,
+});
+
+const bpm = number(MIN_BPM, MAX_BPM);
+
+/** One validator per client event; the server drops anything that fails. */
+export const clientEventValidators: {
+  [E in ClientEvent]: Check<ClientEventPayloads[E]>;
+} = {
+  "join-room": object({
+    ...roomTarget,
+    playerName: text(MAX_PLAYER_NAME_LENGTH),
+    password: optional(text(MAX_PASSWORD_LENGTH)),
+    invite: optional(id),
+    sessionToken: optional(nullable(id)),
+  }),
+  "toggle-step": object(stepTarget),
+  "set-step-velocity": object({ ...stepTarget, velocity: number() }),
+  "set-bpm": object({ ...roomTarget, bpm }),
+  "set-kit": object({ ...roomTarget, kit: id }),
+  "set-synth": object({ ...roomTarget, synth: synthSettings }),
+  "set-mixer-channel": object({
+    ...roomTarget,
+    channelId: id,
+    channel: mixerChannel,
+  }),
+  "set-master-volume": object({ ...roomTarget, masterVolume: unit }),
+  "set-channel-effects": object({
+    ...roomTarget,
+    channelId: id,
+    effects: channelEffects,
+  }),
+  "set-effect-params": object({
+    ...roomTarget,
+    // Each client allocates an impulse response this many seconds long
+    reverb: optional(partial({ decay: number(0.2, 6), returnLevel: unit })),
+    delay: optional(
+      partial({
+        division: oneOf(["1/4", "1/8", "1/8d", "1/16"] as const),
+        feedback: number(0, 0.95),
+        returnLevel: unit,
+      }),
+    ),
+  }),
+  "start-turn": object(roomTarget),
+  "end-turn": object(roomTarget),
+  "set-turn-order": object({
+    ...roomTarget,
+    order: arrayOf(integer(1)),
+  }),
+  "reset-game": object(roomTarget),
+  "set-game": object({
+    ...roomTarget,
+    mode: oneOf(GAME_MODES),
+    rounds: integer(MIN_ROUNDS, MAX_ROUNDS),
+  }),
+  "rate-turn": object({
+    ...roomTarget,
+    rating: integer(MIN_RATING, MAX_RATING),
+  }),
+  "set-rules": object({
+    ...roomTarget,
+    noteBudget: optional(nullable(integer(1, MAX_NOTE_BUDGET))),
+    assignInstruments: optional(boolean),
+    protectNotes: optional(boolean),
+  }),
+  "clear-pattern": object(patternTarget),
+  "set-pattern-length": object({
+    ...roomTarget,
+    stepCount: optional(integer(1)),
+    resolution: optional(oneOf(STEP_RESOLUTIONS)),
+  }),
+  "add-piano-note": object({
+    ...patternTarget,
+    note: object({
+      id,
+      noteIndex: integer(0, PIANO_NOTES.length - 1),
+      start: integer(),
+      duration: integer(1),
+      velocity: optional(number()),
+    }),
+  }),
+  "remove-piano-note": object(noteTarget),
+  "resize-piano-note": object({ ...noteTarget, duration: integer(1) }),
+  "set-piano-velocity": object({ ...noteTarget, velocity: number() }),
+  "add-pattern": object({
+    ...patternTarget,
+    name: patternName,
+    sourceId: optional(id),
+  }),
+  "rename-pattern": object({ ...patternTarget, name: patternName }),
+  "delete-pattern": object(patternTarget),
+  "set-arrangement": object({
+    ...roomTarget,
+    arrangement: arrayOf(object({ patternId: id, repeats: integer(1) })),
+  }),
+  undo: object(roomTarget),
+  redo: object(roomTarget),
+  "request-beat": object(roomTarget),
+  "request-restore": object({ ...roomTarget, snapshotId: id }),
+  "answer-restore": object({ ...roomTarget, snapshotId: id, accept: boolean }),
+  "transport-play": object({ ...roomTarget, step: integer() }),
+  "transport-stop": object({ ...roomTarget, step: integer() }),
+  "transport-seek": object({ ...roomTarget, step: integer() }),
+  "clock-ping": object({ clientTime: number() }),
+  "set-presence": object({
+    ...roomTarget,
+    panel: nullable(oneOf(PRESENCE_PANELS)),
+    cell: nullable(
+      object({
+        area: oneOf(["grid", "piano-roll"] as const),
+        patternId: id,
+        row: integer(),
+        step: integer(),
+      }),
+    ),
+  }),
+  "send-chat": object({ ...roomTarget, text: text(MAX_CHAT_LENGTH) }),
+  "send-reaction": object({ ...roomTarget, emoji: oneOf(REACTIONS) }),
+  "create-invite": object(roomTarget),
+};
+
+/**
+ * Body of a create-room request. Unsupported values, like a step count
+ * that isn't offered, fall back to the defaults once the room is built.
+ */
+export const createRoomValidator: Check<CreateRoomRequest> = partial({
+  maxPlayers: number(),
+  stepCount: number(),
+  resolution: oneOf(STEP_RESOLUTIONS),
+  turnDuration: number(),
+  rounds: nullable(integer(MIN_ROUNDS, MAX_ROUNDS)),
+  bpmRange: object({ min: bpm, max: bpm }),
+  kit: id,
+  visibility: oneOf(ROOM_VISIBILITIES),
+  inviteOnly: boolean,
+  password: text(MAX_PASSWORD_LENGTH),
+});
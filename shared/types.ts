@@ -0,0 +1,501 @@
+// Shapes that travel between client and server, and the defaults and limits
+// both sides hold them to. Client-only types live in
+// app/types, server-only ones in server/socket/types.
+
+export interface Step {
+  active: boolean;
+  velocity: number; // 0-1
+  // Player id of whoever switched it on, missing on steps from before
+  // owners were kept
+  ownerId?: string;
+}
+
+export const DEFAULT_VELOCITY = 0.8;
+
+// A melodic note that starts on one step and can be held across several
+export interface PianoNote {
+  id: string;
+  noteIndex: number; // into PIANO_NOTES
+  start: number;
+  duration: number; // in steps
+  velocity: number; // 0-1
+  // Player id of whoever added it, set by the server
+  ownerId?: string;
+}
+
+export const PIANO_NOTES = [
+  "C3",
+  "C#3",
+  "D3",
+  "D#3",
+  "E3",
+  "F3",
+  "F#3",
+  "G3",
+  "G#3",
+  "A3",
+  "A#3",
+  "B3",
+  "C4",
+  "C#4",
+  "D4",
+  "D#4",
+  "E4",
+  "F4",
+  "F#4",
+  "G4",
+  "G#4",
+  "A4",
+  "A#4",
+  "B4",
+] as const;
+
+// A room-specific sample a player uploaded to replace an instrument's sound
+export interface UploadedSample {
+  fileName: string;
+  mimeType: string;
+  url: string;
+}
+
+// Drum rows, top to bottom
+export const INSTRUMENTS = ["kick", "snare", "hihat", "clap"] as const;
+// Mixer channel id for the piano roll's synth voice
+export const PIANO_CHANNEL = "piano";
+export const MIXER_CHANNELS = [...INSTRUMENTS, PIANO_CHANNEL] as const;
+
+export interface Pattern {
+  id: string;
+  name: string;
+  steps: Step[][];
+  pianoNotes: PianoNote[];
+}
+
+// One slot in the song timeline: play a pattern this many times in a row
+export interface ArrangementEntry {
+  patternId: string;
+  repeats: number;
+}
+
+export const MAX_PATTERNS = 16;
+export const MAX_REPEATS = 16;
+
+// "triplet" divides each beat into three (8th-note triplets) instead of four
+export type StepResolution = "16th" | "triplet";
+
+export const STEP_RESOLUTIONS: readonly StepResolution[] = ["16th", "triplet"];
+
+export const STEPS_PER_BEAT: Record<StepResolution, number> = {
+  "16th": 4,
+  triplet: 3,
+};
+
+export interface PatternSettings {
+  stepCount: number;
+  resolution: StepResolution;
+}
+
+export const STEP_COUNTS: readonly number[] = [8, 12, 16, 24, 32, 64];
+export const DEFAULT_STEP_COUNT = 16;
+
+export const MIN_BPM = 60;
+export const MAX_BPM = 180;
+
+// Tempos the room's players may pick between, MIN_BPM-MAX_BPM at most
+export interface BpmRange {
+  min: number;
+  max: number;
+}
+
+// Seconds a turn lasts
+export const TURN_DURATIONS: readonly number[] = [30, 60, 90, 120];
+export const DEFAULT_TURN_DURATION = 60;
+
+// "public" rooms are listed on the home page, "private" ones are only
+// reachable by their code
+export type RoomVisibility = "public" | "private";
+
+export const ROOM_VISIBILITIES: readonly RoomVisibility[] = [
+  "public",
+  "private",
+];
+
+// Chosen once, when the room is created
+export interface RoomSettings extends PatternSettings {
+  maxPlayers: number;
+  turnDuration: number;
+  // Rounds the game lasts, or null to play on until someone resets
+  rounds: number | null;
+  bpmRange: BpmRange;
+  kit: string;
+  visibility: RoomVisibility;
+  // Only people with an invite link get in
+  inviteOnly: boolean;
+}
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+export const DEFAULT_MAX_PLAYERS = 2;
+
+export interface DrumKit {
+  id: string;
+  name: string;
+}
+
+// Kits are served from public/kits/<kit>/<instrument>.wav
+export const DRUM_KITS: readonly DrumKit[] = [
+  { id: "analog", name: "Analog" },
+  { id: "punchy", name: "Punchy" },
+  { id: "lofi", name: "Lo-Fi" },
+];
+export const DEFAULT_KIT = "analog";
+
+// A public room as listed on the home page
+export interface RoomSummary {
+  id: string;
+  players: number;
+  maxPlayers: number;
+  round: number;
+  isActive: boolean;
+  hasPassword: boolean;
+}
+
+export type SynthWaveform = "sine" | "square" | "sawtooth" | "triangle";
+export type SynthFilterType = "lowpass" | "highpass" | "bandpass";
+
+export interface SynthSettings {
+  waveform: SynthWaveform;
+  attack: number; // seconds
+  decay: number; // seconds
+  sustain: number; // 0-1
+  release: number; // seconds
+  filterType: SynthFilterType;
+  filterCutoff: number; // Hz
+  filterResonance: number; // Q
+}
+
+export const DEFAULT_SYNTH: SynthSettings = {
+  waveform: "sawtooth",
+  attack: 0.01,
+  decay: 0.15,
+  sustain: 0.6,
+  release: 0.2,
+  filterType: "lowpass",
+  filterCutoff: 2400,
+  filterResonance: 1,
+};
+
+export interface MixerChannel {
+  volume: number; // 0-1
+  pan: number; // -1 (left) to 1 (right)
+  mute: boolean;
+  solo: boolean;
+}
+
+export interface MixerState {
+  channels: Record<string, MixerChannel>;
+  masterVolume: number; // 0-1
+}
+
+export const DEFAULT_MIXER_CHANNEL: MixerChannel = {
+  volume: 0.8,
+  pan: 0,
+  mute: false,
+  solo: false,
+};
+
+export const createDefaultMixer = (): MixerState => ({
+  channels: Object.fromEntries(
+    MIXER_CHANNELS.map((id) => [id, { ...DEFAULT_MIXER_CHANNEL }]),
+  ),
+  masterVolume: 0.8,
+});
+
+export type ChannelFilterType = "lowpass" | "highpass";
+export type DelayDivision = "1/4" | "1/8" | "1/8d" | "1/16";
+
+export interface ChannelEffects {
+  reverbSend: number; // 0-1
+  delaySend: number; // 0-1
+  filterType: ChannelFilterType;
+  filterCutoff: number; // Hz
+  filterResonance: number; // Q
+}
+
+export interface ReverbSettings {
+  decay: number; // seconds
+  returnLevel: number; // 0-1
+}
+
+export interface DelaySettings {
+  division: DelayDivision;
+  feedback: number; // 0-0.95
+  returnLevel: number; // 0-1
+}
+
+export interface EffectsState {
+  channels: Record<string, ChannelEffects>;
+  reverb: ReverbSettings;
+  delay: DelaySettings;
+}
+
+// A wide-open low-pass, so the filter is transparent until it's touched
+export const DEFAULT_CHANNEL_EFFECTS: ChannelEffects = {
+  reverbSend: 0,
+  delaySend: 0,
+  filterType: "lowpass",
+  filterCutoff: 18000,
+  filterResonance: 0.7,
+};
+
+export const createDefaultEffects = (): EffectsState => ({
+  channels: Object.fromEntries(
+    MIXER_CHANNELS.map((id) => [id, { ...DEFAULT_CHANNEL_EFFECTS }]),
+  ),
+  reverb: { decay: 2, returnLevel: 0.8 },
+  delay: { division: "1/8d", feedback: 0.35, returnLevel: 0.8 },
+});
+
+// The parts of a room that turn edits change, and that undo puts back
+export interface BeatState {
+  stepCount: number;
+  resolution: StepResolution;
+  patterns: Pattern[];
+  arrangement: ArrangementEntry[];
+}
+
+// The beat as a turn left it, so players can look back through the rounds
+export interface Snapshot extends BeatState {
+  id: string;
+  round: number;
+  playerNumber: number;
+  playerName: string;
+  bpm: number;
+  createdAt: number;
+}
+
+// A request to roll the beat back to a snapshot. It goes through once every
+// connected player has approved it.
+export interface RestoreProposal {
+  snapshotId: string;
+  // Ids of the players who agreed, starting with the one who asked
+  approvals: string[];
+}
+
+// Whether the running turn has edits to undo or redo
+export interface HistoryState {
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export interface Player {
+  // Stays the same across reconnects, unlike socketId
+  id: string;
+  name: string;
+  socketId: string;
+  // Seat number, 1 up to the room's maxPlayers
+  playerNumber: number;
+  // False while the server holds the seat for a dropped player
+  connected: boolean;
+}
+
+// Watches a full room without a seat; never allowed to edit
+export interface Spectator {
+  id: string;
+  name: string;
+  socketId: string;
+}
+
+// "endless" loops rounds until someone resets, "rounds" stops after a set
+// number of them, and "vote" also has everyone rate each turn as it ends
+export type GameMode = "endless" | "rounds" | "vote";
+
+export const GAME_MODES: readonly GameMode[] = ["endless", "rounds", "vote"];
+export const MIN_ROUNDS = 1;
+export const MAX_ROUNDS = 12;
+export const DEFAULT_ROUNDS = 4;
+export const MIN_RATING = 1;
+export const MAX_RATING = 5;
+
+export interface GameSettings {
+  mode: GameMode;
+  // How many rounds a game lasts, unless it's endless
+  rounds: number;
+}
+
+// What a player did over a game, counted by the server as edits come in.
+// Undone edits still count.
+export interface PlayerStats {
+  playerId: string;
+  name: string;
+  playerNumber: number;
+  // Drum hits and piano notes
+  notesAdded: number;
+  notesRemoved: number;
+  // Instrument ids, plus "piano", the player added notes to
+  instrumentsUsed: string[];
+  turnsPlayed: number;
+  // What the others rated this player's turns, in vote mode
+  ratings: number[];
+}
+
+export interface PlayerResult extends PlayerStats {
+  // Average rating in vote mode; modes without a score leave it null
+  score: number | null;
+}
+
+// Limits the server holds every turn to, on top of the timer
+export interface TurnRules {
+  // Most notes a player may add in one turn, null for no limit
+  noteBudget: number | null;
+  // Each turn is given one drum row or the piano to play, at random
+  assignInstruments: boolean;
+  // Notes can only be taken away by the player who placed them
+  protectNotes: boolean;
+}
+
+export const MAX_NOTE_BUDGET = 64;
+
+// In vote mode, the turn that just ended waits for the other players to
+// rate it
+export interface TurnVote {
+  round: number;
+  playerId: string;
+  playerName: string;
+  // Voter player id -> rating
+  ratings: Record<string, number>;
+  // The last turn of the game; results come once the vote closes
+  endsGame: boolean;
+}
+
+export interface TurnState {
+  currentPlayer: number;
+  // Seat numbers in the order turns pass between them
+  order: number[];
+  timeRemaining: number;
+  // Epoch ms on the server clock at which the running turn ends, null
+  // between turns
+  deadline: number | null;
+  isActive: boolean;
+  round: number;
+  // The last round has been played; nothing changes the beat until a reset
+  isFinished: boolean;
+  // Instrument id, or "piano", the running turn is limited to when the
+  // rules assign one
+  assignment: string | null;
+  // Notes the running turn has added, counted against the note budget.
+  // Undoing one gives it back.
+  notesAdded: number;
+}
+
+export interface TurnTick {
+  timeRemaining: number;
+  deadline: number;
+  serverTime: number;
+}
+
+// Shared playback. While playing, `step` sounds at `startAt` on the server
+// clock and every client counts on from there.
+export interface TransportState {
+  isPlaying: boolean;
+  // Steps from the top of the first bar, so song mode keeps its place
+  step: number;
+  startAt: number | null;
+}
+
+// The parts of the room a player can be looking at
+export type PresencePanel =
+  | "transport"
+  | "patterns"
+  | "grid"
+  | "piano-roll"
+  | "arrangement"
+  | "sound"
+  | "history";
+
+export const PRESENCE_PANELS: readonly PresencePanel[] = [
+  "transport",
+  "patterns",
+  "grid",
+  "piano-roll",
+  "arrangement",
+  "sound",
+  "history",
+];
+
+// The cell under a player's pointer. `row` is the instrument in the grid
+// and the note in the piano roll.
+export interface PresenceCell {
+  area: "grid" | "piano-roll";
+  patternId: string;
+  row: number;
+  step: number;
+}
+
+// What a player is pointing at, shown to everyone else but never stored
+export interface Presence {
+  panel: PresencePanel | null;
+  cell: PresenceCell | null;
+}
+
+export interface ChatMessage {
+  id: string;
+  playerId: string;
+  // Copied in, so messages still read right after the player leaves
+  name: string;
+  playerNumber: number;
+  text: string;
+  sentAt: number;
+}
+
+// Messages a room keeps; older ones fall off
+export const MAX_CHAT_HISTORY = 100;
+
+export type ReactionEmoji = "👍" | "🔥" | "😂" | "😮" | "👏" | "❤️";
+
+export const REACTIONS: readonly ReactionEmoji[] = [
+  "👍",
+  "🔥",
+  "😂",
+  "😮",
+  "👏",
+  "❤️",
+];
+
+// A quick reaction that floats over the grid for a moment, never stored
+export interface Reaction {
+  id: string;
+  playerId: string;
+  emoji: ReactionEmoji;
+}
+
+// Everything a client needs to render a room when it joins
+export interface RoomState {
+  id: string;
+  maxPlayers: number;
+  stepCount: number;
+  resolution: StepResolution;
+  turnDuration: number;
+  bpmRange: BpmRange;
+  visibility: RoomVisibility;
+  patterns: Pattern[];
+  arrangement: ArrangementEntry[];
+  bpm: number;
+  kit: string;
+  synth: SynthSettings;
+  mixer: MixerState;
+  effects: EffectsState;
+  samples: Record<string, UploadedSample>;
+  turn: TurnState;
+  history: HistoryState;
+  game: GameSettings;
+  rules: TurnRules;
+  vote: TurnVote | null;
+  // Filled in once the game is finished
+  results: PlayerResult[] | null;
+  transport: TransportState;
+  snapshots: Snapshot[];
+  restoreProposal: RestoreProposal | null;
+  chat: ChatMessage[];
+  players: Player[];
+  spectators: Spectator[];
+}
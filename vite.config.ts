@@ -5,7 +5,13 @@ import { defineConfig, type ViteDevServer } from "vite";
 import babel from "vite-plugin-babel";
 import tsconfigPaths from "vite-tsconfig-paths";
 
-import { setupSocketHandlers } from "./server/socket";
+import { createLobbyMiddleware } from "./server/lobby";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from "./server/socket";
+import { loadRooms, setupSocketHandlers } from "./server/socket";
+import { createSampleMiddleware } from "./server/uploads";
 
 /**
  * Socket.IO plugin for development mode.
@@ -20,17 +26,23 @@ import { setupSocketHandlers } from "./server/socket";
  */
 const socketIOPlugin = {
   name: "socket-io",
-  configureServer(server: ViteDevServer) {
+  async configureServer(server: ViteDevServer) {
     if (!server.httpServer) return;
 
-    const io = new SocketIOServer(server.httpServer, {
-      cors: {
-        origin: "*",
-        methods: ["GET", "POST"],
+    const io = new SocketIOServer<ClientToServerEvents, ServerToClientEvents>(
+      server.httpServer,
+      {
+        cors: {
+          origin: "*",
+          methods: ["GET", "POST"],
+        },
       },
-    });
+    );
 
+    await loadRooms();
     setupSocketHandlers(io);
+    server.middlewares.use(createLobbyMiddleware());
+    server.middlewares.use(createSampleMiddleware(io));
     console.log("Socket.IO initialized");
   },
 };